@@ -18,34 +18,168 @@ import {
   Monitor,
   Tablet,
   Smartphone,
+  Laptop,
+  Tv,
   ArrowUp,
   ArrowDown,
   ArrowLeft,
-  ArrowRight
+  ArrowRight,
+  ListTree,
+  GitCompare,
+  ChevronUp,
+  ChevronDown,
+  EyeOff,
+  AlertTriangle,
+  FolderTree,
+  BarChart3,
+  Languages,
+  ShieldAlert
 } from 'lucide-react';
-import { JsonEditor } from './components/JsonEditor';
-import { compressElementorJSON, formatByteSize } from './utils/compressor';
-import { CompressorStats, CompressorOptions, DevicePadding, PaddingValues } from './types';
-
-const defaultPadding: PaddingValues = { top: '0', right: '0', bottom: '0', left: '0' };
-const defaultDevicePadding: DevicePadding = {
-  desktop: { ...defaultPadding },
-  tablet: { ...defaultPadding },
-  mobile: { ...defaultPadding }
+import { JsonDiffEditor, JsonEditor, revealJsonPath } from './components/JsonEditor';
+import { ChangeLogPanel } from './components/ChangeLogPanel';
+import { ProblemSource, ProblemsPanel } from './components/ProblemsPanel';
+import { OutlinePanel, OutlineSource } from './components/OutlinePanel';
+import { SizeReportPanel } from './components/SizeReportPanel';
+import { SecurityPanel } from './components/SecurityPanel';
+import { ProfileSwitcher } from './components/ProfileSwitcher';
+import { CustomRulesEditor } from './components/CustomRulesEditor';
+import { formatByteSize } from './utils/compressor';
+import { documentFormatLabels, parseElementorDocument } from './utils/elementor';
+import { digitStyles, directionModes, outputEncodings, outputFormats, pageSettingsPolicies } from './utils/options';
+import { BREAKPOINTS, DEFAULT_BREAKPOINTS, activeBreakpoints, resolveDevicePadding } from './utils/responsive';
+import { getRule, isRuleEnabled, isRuleToggled, ruleRegistry } from './utils/rules';
+import { downloadTextFile } from './utils/download';
+import { getActiveProfile, loadProfileStore, saveProfileStore } from './utils/profiles';
+import { createAnalysisWorker } from './utils/analysisWorker';
+import { ConversionCancelledError, createCompressorWorker } from './utils/compressorWorker';
+import { OutlineNode } from './utils/outline';
+import { decodeElementorData, POST_ID_PLACEHOLDER } from './utils/postmeta';
+import {
+  detectTranslationFormat,
+  extractTranslations,
+  parseTranslations,
+  serializeTranslations,
+  translationFileExtensions,
+  translationFormatLabels
+} from './utils/translations';
+import {
+  Breakpoint,
+  ChangeLogEntry,
+  CompressorRuleCategory,
+  CompressorRuleId,
+  CompressorStats,
+  CompressorOptions,
+  DigitStyle,
+  DirectionMode,
+  ElementorDocumentFormat,
+  InputEncoding,
+  LintProblem,
+  OutputEncoding,
+  OutputFormat,
+  PaddingOptionKey,
+  PaddingValues,
+  PageSettingsPolicy,
+  SecurityFinding,
+  SizeReport,
+  TranslationFormat,
+  TranslationMap
+} from './types';
+
+const ruleCategories: { category: CompressorRuleCategory; title: string }[] = [
+  { category: 'direction', title: 'Direction' },
+  { category: 'layout', title: 'Layout' },
+  { category: 'cleanup', title: 'Cleanup' },
+  { category: 'text', title: 'Text' },
+  { category: 'security', title: 'Security' },
+  { category: 'output', title: 'Output' }
+];
+
+const breakpointMeta: Record<Breakpoint, { label: string; icon: any }> = {
+  widescreen: { label: 'Widescreen', icon: Tv },
+  desktop: { label: 'Desktop', icon: Monitor },
+  laptop: { label: 'Laptop', icon: Laptop },
+  tablet_extra: { label: 'Tablet Extra', icon: Tablet },
+  tablet: { label: 'Tablet', icon: Tablet },
+  mobile_extra: { label: 'Mobile Extra', icon: Smartphone },
+  mobile: { label: 'Mobile', icon: Smartphone }
+};
+
+const directionLabels: Record<DirectionMode, string> = {
+  keep: 'Keep',
+  rtl: 'To RTL',
+  ltr: 'To LTR'
+};
+
+const digitStyleLabels: Record<DigitStyle, string> = {
+  keep: 'Keep',
+  persian: '۱۲۳',
+  arabic: '١٢٣',
+  latin: '123'
+};
+
+const pageSettingsLabels: Record<PageSettingsPolicy, string> = {
+  keep: 'Keep',
+  clean: 'Clean',
+  remove: 'Remove'
+};
+
+const outputFormatLabels: Record<OutputFormat, string> = {
+  auto: 'Same as input',
+  elements: 'Elements array',
+  clipboard: 'Clipboard (paste in Elementor)',
+  template: 'Template file (import)'
+};
+
+const outputEncodingLabels: Record<OutputEncoding, string> = {
+  json: 'JSON',
+  postmeta: 'Postmeta string',
+  'wp-cli': 'WP-CLI command'
+};
+
+const inputEncodingLabels: Record<InputEncoding, string> = {
+  json: '',
+  string: 'double-encoded',
+  slashed: 'slash-escaped'
 };
 
+const SegmentedSelect = <T extends string>({
+  value,
+  options,
+  labels,
+  onChange
+}: {
+  value: T;
+  options: T[];
+  labels: Record<T, string>;
+  onChange: (val: T) => void;
+}) => (
+  <div className="grid gap-1 p-1 bg-[#0d1117] border border-[#30363d] rounded-md" style={{ gridTemplateColumns: `repeat(${options.length}, minmax(0, 1fr))` }}>
+    {options.map(option => (
+      <button
+        key={option}
+        onClick={() => onChange(option)}
+        className={`py-1 text-xs rounded transition-colors ${value === option ? 'bg-[#1f6feb] text-white font-semibold' : 'text-[#8b949e] hover:text-[#c9d1d9] hover:bg-[#21262d]'}`}
+      >
+        {labels[option]}
+      </button>
+    ))}
+  </div>
+);
+
 const Switch = ({
   label,
   checked,
   onChange,
-  description
+  description,
+  disabled
 }: {
   label: string;
   checked: boolean;
   onChange: (val: boolean) => void;
   description?: string;
+  disabled?: boolean;
 }) => (
-  <div className="flex items-center justify-between gap-4 group cursor-pointer" onClick={() => onChange(!checked)}>
+  <div className={`flex items-center justify-between gap-4 group ${disabled ? 'opacity-40 pointer-events-none' : 'cursor-pointer'}`} onClick={() => onChange(!checked)}>
     <div className="flex flex-col">
       <span className="text-sm font-medium text-[#c9d1d9] group-hover:text-[#f0f6fc] transition-colors">{label}</span>
       {description && <span className="text-[10px] text-[#8b949e]">{description}</span>}
@@ -117,38 +251,87 @@ const PaddingGrid = ({
   </div>
 );
 
+/** Comma-separated list, committed when the field loses focus so typing a separator isn't undone */
+const ListInput = ({
+  label,
+  values,
+  onChange
+}: {
+  label: string;
+  values: string[];
+  onChange: (values: string[]) => void;
+}) => {
+  const [draft, setDraft] = useState(values.join(', '));
+  useEffect(() => setDraft(values.join(', ')), [values]);
+
+  return (
+    <label className="flex flex-col gap-1.5">
+      <span className="text-[10px] text-[#8b949e] uppercase font-bold tracking-widest">{label}</span>
+      <input
+        type="text"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={() => onChange(draft.split(/[\s,]+/).map(item => item.toLowerCase()).filter(Boolean))}
+        className="w-full bg-[#0d1117] border border-[#30363d] rounded px-2 py-1 text-xs font-mono focus:border-[#58a6ff] outline-none"
+      />
+    </label>
+  );
+};
+
 const App: React.FC = () => {
   const [inputJSON, setInputJSON] = useState<string>('');
   const [outputJSON, setOutputJSON] = useState<string>('');
   const [stats, setStats] = useState<CompressorStats | null>(null);
+  const [inputFormat, setInputFormat] = useState<{ format: ElementorDocumentFormat; encoding: InputEncoding } | null>(null);
+  const [changes, setChanges] = useState<ChangeLogEntry[]>([]);
+  const [showChangeLog, setShowChangeLog] = useState(false);
+  const [sizes, setSizes] = useState<SizeReport | null>(null);
+  const [showSizes, setShowSizes] = useState(false);
+  const [findings, setFindings] = useState<SecurityFinding[]>([]);
+  const [showFindings, setShowFindings] = useState(false);
+  const [translationFormat, setTranslationFormat] = useState<TranslationFormat>('po');
+  const [translations, setTranslations] = useState<{ fileName: string; map: TranslationMap } | null>(null);
+  const [problems, setProblems] = useState<Record<ProblemSource, LintProblem[]>>({ input: [], output: [] });
+  // Markers need problem paths to match the editor text, which escaped input doesn't
+  const [inputIsJson, setInputIsJson] = useState(true);
+  const [showProblems, setShowProblems] = useState(false);
+  const [showOutline, setShowOutline] = useState(false);
+  const [outlines, setOutlines] = useState<Record<OutlineSource, OutlineNode[]>>({ input: [], output: [] });
+  const [viewMode, setViewMode] = useState<'split' | 'diff'>('split');
+  const [hideUnchanged, setHideUnchanged] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [compressor] = useState(createCompressorWorker);
+  const [analyzer] = useState(() =>
+    createAnalysisWorker((source, { encoding, problems, outline }) => {
+      setOutlines(prev => ({ ...prev, [source]: outline }));
+      if (source !== 'input') return;
+      setProblems(prev => ({ ...prev, input: problems }));
+      if (encoding) setInputIsJson(encoding === 'json');
+    })
+  );
   const [copyStatus, setCopyStatus] = useState<'idle' | 'copied'>('idle');
   const [showSettings, setShowSettings] = useState(false);
   const [toast, setToast] = useState<{ show: boolean; success: boolean; message: string }>({ show: false, success: false, message: '' });
 
   const editorRef = useRef<any>(null);
+  const outputEditorRef = useRef<any>(null);
+  const diffEditorRef = useRef<any>(null);
   const toastTimeoutRef = useRef<any>(null);
   const lastProcessedInput = useRef<string>('');
+  const jobRef = useRef(0);
+  const jobInput = useRef<string>('');
 
-  const [options, setOptions] = useState<CompressorOptions>(() => {
-    const saved = localStorage.getItem('elementor_compressor_settings_v14');
-    return saved ? JSON.parse(saved) : {
-      rtlize: true,
-      removeMotionFX: false,
-      autoFormatOnPaste: true,
-      autoConvertOnPaste: true,
-      autoRename: true,
-      removeMargins: true,
-      removeLevel2Padding: true,
-      removeLevel3Padding: true,
-      applyMotherPadding: true,
-      motherPadding: { ...defaultDevicePadding },
-      applyLevel2Padding: false,
-      level2Padding: { ...defaultDevicePadding },
-      applyLevel3Padding: false,
-      level3Padding: { ...defaultDevicePadding }
-    };
-  });
+  const [profileStore, setProfileStore] = useState(() => loadProfileStore());
+  const options = getActiveProfile(profileStore).options;
+
+  /** Option changes are saved into the active profile */
+  const setOptions = useCallback((update: (prev: CompressorOptions) => CompressorOptions) => {
+    setProfileStore(store => {
+      const activeId = getActiveProfile(store).id;
+      return { ...store, profiles: store.profiles.map(profile => (profile.id === activeId ? { ...profile, options: update(profile.options) } : profile)) };
+    });
+  }, []);
 
   const playSuccessSound = () => {
     try {
@@ -176,41 +359,63 @@ const App: React.FC = () => {
     }
   }, []);
 
-  const performConversion = useCallback((rawJson: string) => {
+  const performConversion = useCallback(async (rawJson: string) => {
     if (!rawJson.trim()) return;
+    // A newer job supersedes this one; only the latest may update the UI
+    const job = ++jobRef.current;
+    jobInput.current = rawJson;
+    lastProcessedInput.current = rawJson;
     setIsProcessing(true);
+    setProgress(null);
     try {
-      const parsed = JSON.parse(rawJson);
-      const originalBytes = new TextEncoder().encode(rawJson).length;
-      const { cleaned, removedCount } = compressElementorJSON(parsed, options);
-      const compressed = JSON.stringify(cleaned, null, 2);
-      const compressedBytes = new TextEncoder().encode(compressed).length;
-
-      setOutputJSON(compressed);
-      setStats({
-        originalSize: originalBytes,
-        compressedSize: compressedBytes,
-        reductionPercentage: originalBytes > 0 ? ((originalBytes - compressedBytes) / originalBytes) * 100 : 0,
-        removedKeys: removedCount
+      const result = await compressor.run(rawJson, options, {
+        translations: translations?.map,
+        onProgress: (done, total) => {
+          if (job === jobRef.current) setProgress({ done, total });
+        }
       });
 
-      lastProcessedInput.current = rawJson;
-      navigator.clipboard.writeText(compressed);
+      setOutputJSON(result.output);
+      setProblems(prev => ({ ...prev, output: result.problems }));
+      setStats(result.stats);
+      setInputFormat({ format: result.format, encoding: result.encoding });
+      setChanges(result.changes);
+      setSizes(result.sizes ?? null);
+      setFindings(result.findings);
+
+      navigator.clipboard.writeText(result.output);
       setCopyStatus('copied');
       setTimeout(() => setCopyStatus('idle'), 2000);
       showToast(true, 'Optimized & Copied to Clipboard!');
     } catch (e: any) {
+      if (e instanceof ConversionCancelledError) return;
       showToast(false, `Conversion Failed: ${e.message}`);
     } finally {
-      setIsProcessing(false);
+      if (job === jobRef.current) {
+        setIsProcessing(false);
+        setProgress(null);
+      }
     }
-  }, [options, showToast]);
+  }, [compressor, options, translations, showToast]);
+
+  // Restart a running job when the options change, rather than letting it finish with stale ones
+  useEffect(() => {
+    if (compressor.isRunning()) performConversion(jobInput.current);
+  }, [compressor, performConversion]);
+
+  useEffect(() => () => compressor.dispose(), [compressor]);
 
   // Effect to handle Auto-Convert and Auto-Format when inputJSON changes
   useEffect(() => {
     if (!inputJSON.trim()) {
+      compressor.cancel();
       setOutputJSON('');
       setStats(null);
+      setInputFormat(null);
+      setProblems({ input: [], output: [] });
+      setChanges([]);
+      setSizes(null);
+      setFindings([]);
       lastProcessedInput.current = '';
       return;
     }
@@ -237,11 +442,24 @@ const App: React.FC = () => {
 
       return () => clearTimeout(timer);
     }
-  }, [inputJSON, options.autoConvertOnPaste, options.autoFormatOnPaste, performConversion]);
+  }, [compressor, inputJSON, options.autoConvertOnPaste, options.autoFormatOnPaste, performConversion]);
+
+  // Lint the input as it is edited, and outline it while the outline is open; big documents would block typing
+  useEffect(() => {
+    const timer = setTimeout(() => analyzer.analyze('input', inputJSON, { lint: true, outline: showOutline }), 300);
+    return () => clearTimeout(timer);
+  }, [analyzer, inputJSON, showOutline]);
+
+  useEffect(() => {
+    if (showOutline) analyzer.analyze('output', outputJSON, { lint: false, outline: true });
+    else setOutlines(prev => ({ ...prev, output: [] }));
+  }, [analyzer, outputJSON, showOutline]);
+
+  useEffect(() => () => analyzer.dispose(), [analyzer]);
 
   useEffect(() => {
-    localStorage.setItem('elementor_compressor_settings_v14', JSON.stringify(options));
-  }, [options]);
+    saveProfileStore(profileStore);
+  }, [profileStore]);
 
   const handleCompress = useCallback(() => performConversion(inputJSON), [inputJSON, performConversion]);
 
@@ -279,6 +497,34 @@ const App: React.FC = () => {
     } catch (e) { showToast(false, 'Invalid JSON'); }
   };
 
+  const handleExportStrings = () => {
+    try {
+      const units = extractTranslations(parseElementorDocument(decodeElementorData(inputJSON).value));
+      if (units.length === 0) return showToast(false, 'No translatable strings in the input');
+      downloadTextFile(serializeTranslations(units, translationFormat), `elementor-strings.${translationFileExtensions[translationFormat]}`, 'text/plain');
+    } catch (e: any) {
+      showToast(false, `Export Failed: ${e.message}`);
+    }
+  };
+
+  const handleImportTranslations = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const text = event.target?.result as string;
+      try {
+        const map = parseTranslations(text, detectTranslationFormat(text, file.name));
+        setTranslations({ fileName: file.name, map });
+        showToast(true, `Loaded ${Object.keys(map).length} translated strings`);
+      } catch (err: any) {
+        showToast(false, err.message);
+      }
+    };
+    reader.readAsText(file);
+  };
+
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -292,86 +538,165 @@ const App: React.FC = () => {
 
   const handleDownload = () => {
     if (!outputJSON) return;
-    const blob = new Blob([outputJSON], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'elementor-optimized.json';
-    a.click();
-    URL.revokeObjectURL(url);
+    if (options.outputEncoding === 'wp-cli') return downloadTextFile(outputJSON, 'elementor-data.sh');
+    if (options.outputEncoding === 'postmeta') return downloadTextFile(outputJSON, 'elementor-data.txt');
+    const isTemplate = options.outputFormat === 'template' || (options.outputFormat === 'auto' && inputFormat?.format === 'template');
+    downloadTextFile(outputJSON, isTemplate ? 'elementor-template.json' : 'elementor-optimized.json');
   };
 
-  const handleUpdatePadding = (target: 'mother' | 'level2' | 'level3', device: keyof DevicePadding, key: keyof PaddingValues, val: string) => {
-    setOptions(prev => {
-      const padKey = target === 'mother' ? 'motherPadding' : target === 'level2' ? 'level2Padding' : 'level3Padding';
-      return {
-        ...prev,
-        [padKey]: {
-          ...prev[padKey],
-          [device]: { ...prev[padKey][device], [key]: val }
-        }
+  const handleUpdatePadding = (padKey: PaddingOptionKey, device: Breakpoint, key: keyof PaddingValues, val: string) => {
+    setOptions(prev => ({
+      ...prev,
+      [padKey]: {
+        ...prev[padKey],
+        [device]: { ...resolveDevicePadding(prev[padKey], device), [key]: val }
       }
-    });
+    }));
+  };
+
+  const handleToggleBreakpoint = (breakpoint: Breakpoint, enabled: boolean) => {
+    setOptions(prev => ({
+      ...prev,
+      breakpoints: activeBreakpoints(enabled ? [...prev.breakpoints, breakpoint] : prev.breakpoints.filter(bp => bp !== breakpoint))
+    }));
+  };
+
+  /** The editor currently showing one side, in split or diff view */
+  const getEditor = useCallback((source: ProblemSource | OutlineSource) => {
+    if (viewMode === 'diff') {
+      const diffEditor = diffEditorRef.current;
+      return source === 'input' ? diffEditor?.getOriginalEditor() : diffEditor?.getModifiedEditor();
+    }
+    return source === 'input' ? editorRef.current : outputEditorRef.current;
+  }, [viewMode]);
+
+  const handleSelectProblem = (source: ProblemSource, problem: LintProblem) => revealJsonPath(getEditor(source), problem.path);
+  // Findings point at the input, where the neutralized content is still visible
+  const handleSelectFinding = (finding: SecurityFinding) => revealJsonPath(getEditor('input'), finding.path);
+
+
+  const handleToggleRule = (id: CompressorRuleId, enabled: boolean) => {
+    // Strict mode keeps the sanitizer on, so it goes off with it
+    setOptions(prev => ({ ...prev, rules: { ...prev.rules, [id]: enabled }, ...(id === 'sanitize' && !enabled && { strictSanitize: false }) }));
   };
 
+  const problemCount = problems.input.length + problems.output.length;
+  const hasErrors = [...problems.input, ...problems.output].some(problem => problem.severity === 'error');
+
+  const inputFormatLabel = inputFormat
+    ? [documentFormatLabels[inputFormat.format], inputEncodingLabels[inputFormat.encoding]].filter(Boolean).join(', ')
+    : '-';
+
+  // Text fixes and HTML savings are only shown while their rules are on
+  const normalizedTextTotal = stats && isRuleEnabled(options, getRule('normalize-text')!)
+    ? stats.normalizedText.characters + stats.normalizedText.digits + stats.normalizedText.zwnj
+    : undefined;
+  const showCleanedHtml = !!stats && isRuleEnabled(options, getRule('clean-html')!);
+  const showFindingsCount = !!stats && isRuleEnabled(options, getRule('sanitize')!);
+  const statsColumns = ['grid-cols-8', 'grid-cols-9', 'grid-cols-10', 'grid-cols-11'][
+    Number(normalizedTextTotal !== undefined) + Number(showCleanedHtml) + Number(showFindingsCount)
+  ];
+
   return (
     <div className="flex flex-col h-screen font-sans bg-[#0d1117] text-[#c9d1d9] overflow-hidden">
       <header className="flex-none bg-[#161b22] border-b border-[#30363d] px-6 py-3 flex flex-col sm:flex-row items-center justify-between gap-4 z-10">
         <div className="flex items-center gap-3">
           <div className="bg-[#1f6feb] p-2 rounded-lg"><Maximize2 className="w-5 h-5 text-white" /></div>
-          <div><h1 className="text-xl font-bold text-[#f0f6fc]">Elementor Compressor</h1><p className="text-xs text-[#8b949e]">A high-performance utility to optimize Elementor JSON (RTLize)</p></div>
+          <div><h1 className="text-xl font-bold text-[#f0f6fc]">Elementor Compressor</h1><p className="text-xs text-[#8b949e]">A high-performance utility to optimize Elementor JSON (RTL / LTR)</p></div>
         </div>
 
         <div className="flex items-center gap-4">
+          <ProfileSwitcher store={profileStore} onChange={setProfileStore} onMessage={showToast} />
           <label className="flex items-center gap-2 px-3 py-1.5 rounded-md border border-[#30363d] bg-[#21262d] hover:bg-[#30363d] text-[#c9d1d9] text-sm cursor-pointer shadow-sm transition-all"><Upload className="w-4 h-4" /><span>Load File</span><input type="file" className="hidden" accept=".json" onChange={handleFileUpload} /></label>
+          <button onClick={() => setShowOutline(v => !v)} title="Outline" className={`p-2 rounded-md border border-[#30363d] bg-[#21262d] hover:bg-[#30363d] shadow-sm ${showOutline ? 'text-[#58a6ff]' : 'text-[#c9d1d9]'}`}><FolderTree className="w-5 h-5" /></button>
           <button onClick={() => setShowSettings(true)} className="p-2 rounded-md border border-[#30363d] bg-[#21262d] hover:bg-[#30363d] text-[#c9d1d9] shadow-sm"><Settings className="w-5 h-5" /></button>
-          <button onClick={handleCompress} disabled={!inputJSON || isProcessing} className="flex items-center gap-2 px-4 py-1.5 rounded-md bg-[#238636] hover:bg-[#2ea043] disabled:bg-[#238636]/50 text-white text-sm font-semibold transition-all shadow-md"><Zap className={`w-4 h-4 ${isProcessing ? 'animate-pulse' : ''}`} /><span>{isProcessing ? 'Processing' : 'Convert'}</span></button>
+          {isProcessing
+            ? <button onClick={() => compressor.cancel()} title="Cancel conversion" className="relative overflow-hidden flex items-center gap-2 px-4 py-1.5 rounded-md bg-[#21262d] border border-[#30363d] hover:border-red-400 text-[#c9d1d9] text-sm font-semibold transition-all shadow-md">
+                <span className="absolute inset-y-0 left-0 bg-[#238636]/40 transition-all" style={{ width: `${progress ? (progress.done / Math.max(progress.total, 1)) * 100 : 0}%` }} />
+                <X className="relative w-4 h-4" /><span className="relative">{progress ? `${progress.done} / ${progress.total}` : 'Processing'}</span>
+              </button>
+            : <button onClick={handleCompress} disabled={!inputJSON} className="flex items-center gap-2 px-4 py-1.5 rounded-md bg-[#238636] hover:bg-[#2ea043] disabled:bg-[#238636]/50 text-white text-sm font-semibold transition-all shadow-md"><Zap className="w-4 h-4" /><span>Convert</span></button>}
         </div>
       </header>
 
-      <main className="flex-1 min-h-0 p-6 grid grid-cols-1 lg:grid-cols-2 gap-6 overflow-hidden">
-        <div className="flex flex-col gap-3 h-full min-h-0">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-2 text-sm text-[#8b949e] font-medium uppercase tracking-wider"><FileJson className="w-4 h-4" /><span>Input Source</span></div>
-            <div className="flex items-center gap-3 text-xs">
-              <button onClick={handlePaste} className="flex items-center gap-1.5 px-2 py-1 bg-[#21262d] border border-[#30363d] rounded text-[#c9d1d9] hover:bg-[#30363d] transition-colors"><ClipboardPaste className="w-3 h-3" /><span>Paste</span></button>
-              <div className="h-4 w-[1px] bg-[#30363d] mx-1"></div>
-              <button onClick={() => handlePrettify('input')} className="text-[#8b949e] hover:text-[#58a6ff]">Prettify</button>
-              <button onClick={() => handleMinify('input')} className="text-[#8b949e] hover:text-[#58a6ff]">Minify</button>
-              <div className="h-4 w-[1px] bg-[#30363d] mx-1"></div>
-              <button onClick={() => setInputJSON('')} className="text-[#8b949e] hover:text-red-400 transition-colors"><Trash2 className="w-4 h-4" /></button>
+      <main className="flex-1 min-h-0 p-6 flex gap-6 overflow-hidden">
+        {showOutline && <aside className="w-72 shrink-0 min-h-0">
+          <OutlinePanel outlines={outlines} getEditor={getEditor} onClose={() => setShowOutline(false)} />
+        </aside>}
+        <div className="flex-1 min-w-0 min-h-0 grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {viewMode === 'split' && <div className="flex flex-col gap-3 h-full min-h-0">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2 text-sm text-[#8b949e] font-medium uppercase tracking-wider"><FileJson className="w-4 h-4" /><span>Input Source</span></div>
+              <div className="flex items-center gap-3 text-xs">
+                <button onClick={handlePaste} className="flex items-center gap-1.5 px-2 py-1 bg-[#21262d] border border-[#30363d] rounded text-[#c9d1d9] hover:bg-[#30363d] transition-colors"><ClipboardPaste className="w-3 h-3" /><span>Paste</span></button>
+                <div className="h-4 w-[1px] bg-[#30363d] mx-1"></div>
+                <button onClick={() => handlePrettify('input')} className="text-[#8b949e] hover:text-[#58a6ff]">Prettify</button>
+                <button onClick={() => handleMinify('input')} className="text-[#8b949e] hover:text-[#58a6ff]">Minify</button>
+                <div className="h-4 w-[1px] bg-[#30363d] mx-1"></div>
+                <button onClick={() => setInputJSON('')} className="text-[#8b949e] hover:text-red-400 transition-colors"><Trash2 className="w-4 h-4" /></button>
+              </div>
             </div>
-          </div>
-          <div className="flex-1 min-h-0">
-            <JsonEditor value={inputJSON} onChange={setInputJSON} onMount={(e, m) => {
-              editorRef.current = e;
-              e.addCommand(m.KeyMod.CtrlCmd | m.KeyCode.Enter, () => handleCompress());
-            }} placeholder='Paste Elementor JSON here...' />
-          </div>
-        </div>
-
-        <div className="flex flex-col gap-3 h-full min-h-0">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-2 text-sm text-[#8b949e] font-medium uppercase tracking-wider"><Zap className="w-4 h-4" /><span>Optimized Result</span></div>
-            <div className="flex items-center gap-3 text-xs">
-              <button onClick={() => handlePrettify('output')} className="text-[#8b949e] hover:text-[#58a6ff]">Prettify</button>
-              <button onClick={() => handleMinify('output')} className="text-[#8b949e] hover:text-[#58a6ff]">Minify</button>
-              <div className="h-4 w-[1px] bg-[#30363d] mx-1"></div>
-              <button onClick={() => { navigator.clipboard.writeText(outputJSON); setCopyStatus('copied'); setTimeout(() => setCopyStatus('idle'), 2000); }} disabled={!outputJSON} className="flex items-center gap-1.5 px-3 py-1 font-semibold rounded bg-[#1f6feb] border border-[#1f6feb] text-white hover:bg-[#388bfd] transition-all">{copyStatus === 'copied' ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}<span>Copy</span></button>
-              <button onClick={handleDownload} disabled={!outputJSON} className="p-1.5 rounded bg-[#21262d] border border-[#30363d] text-[#c9d1d9] hover:bg-[#30363d] transition-all"><Download className="w-4 h-4" /></button>
+            <div className="flex-1 min-h-0">
+              <JsonEditor value={inputJSON} onChange={setInputJSON} problems={inputIsJson ? problems.input : []} onMount={(e, m) => {
+                editorRef.current = e;
+                e.addCommand(m.KeyMod.CtrlCmd | m.KeyCode.Enter, () => handleCompress());
+              }} placeholder='Paste Elementor JSON here...' />
             </div>
-          </div>
-          <div className="flex-1 min-h-0">
-            <JsonEditor value={outputJSON} readOnly placeholder='Result will appear here...' />
-          </div>
-          {stats && (
-            <div className="grid grid-cols-4 gap-4 p-3 bg-[#161b22] border border-[#30363d] rounded-md text-[10px] shadow-sm">
-              <div className="flex flex-col"><span className="text-[#8b949e] uppercase font-bold tracking-widest">Original</span><span className="text-xs font-semibold">{formatByteSize(stats.originalSize)}</span></div>
-              <div className="flex flex-col"><span className="text-[#8b949e] uppercase font-bold tracking-widest">Result</span><span className="text-xs font-semibold text-green-400">{formatByteSize(stats.compressedSize)}</span></div>
-              <div className="flex flex-col"><span className="text-[#8b949e] uppercase font-bold tracking-widest">Save</span><span className="text-xs font-semibold text-[#1f6feb]">{stats.reductionPercentage.toFixed(1)}%</span></div>
-              <div className="flex flex-col"><span className="text-[#8b949e] uppercase font-bold tracking-widest">Removed</span><span className="text-xs font-semibold">{stats.removedKeys} keys</span></div>
+          </div>}
+
+          <div className={`flex flex-col gap-3 h-full min-h-0 ${viewMode === 'diff' ? 'lg:col-span-2' : ''}`}>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2 text-sm text-[#8b949e] font-medium uppercase tracking-wider">{viewMode === 'diff' ? <GitCompare className="w-4 h-4" /> : <Zap className="w-4 h-4" />}<span>{viewMode === 'diff' ? 'Input vs Optimized' : 'Optimized Result'}</span></div>
+              <div className="flex items-center gap-3 text-xs">
+                {viewMode === 'diff' && <>
+                  <button onClick={() => diffEditorRef.current?.goToDiff('previous')} title="Previous change" className="p-1 rounded text-[#8b949e] hover:text-[#58a6ff] hover:bg-[#21262d]"><ChevronUp className="w-4 h-4" /></button>
+                  <button onClick={() => diffEditorRef.current?.goToDiff('next')} title="Next change" className="p-1 rounded text-[#8b949e] hover:text-[#58a6ff] hover:bg-[#21262d]"><ChevronDown className="w-4 h-4" /></button>
+                  <button onClick={() => setHideUnchanged(v => !v)} className={`flex items-center gap-1 ${hideUnchanged ? 'text-[#58a6ff]' : 'text-[#8b949e] hover:text-[#58a6ff]'}`}><EyeOff className="w-3.5 h-3.5" /><span>Hide Unchanged</span></button>
+                  <div className="h-4 w-[1px] bg-[#30363d] mx-1"></div>
+                </>}
+                <button onClick={() => setShowProblems(v => !v)} title="Problems" className={`flex items-center gap-1 ${problemCount === 0 ? 'text-[#8b949e] hover:text-[#58a6ff]' : hasErrors ? 'text-red-400' : 'text-yellow-400'}`}><AlertTriangle className="w-3.5 h-3.5" /><span>{problemCount}</span></button>
+                <button onClick={() => setViewMode(m => m === 'diff' ? 'split' : 'diff')} disabled={!outputJSON && viewMode === 'split'} className={`flex items-center gap-1 ${viewMode === 'diff' ? 'text-[#58a6ff]' : 'text-[#8b949e] hover:text-[#58a6ff]'}`}><GitCompare className="w-3.5 h-3.5" /><span>Diff</span></button>
+                <div className="h-4 w-[1px] bg-[#30363d] mx-1"></div>
+                <select value={options.outputFormat} onChange={e => setOptions(p => ({ ...p, outputFormat: e.target.value as OutputFormat }))} title="Output format" className="bg-[#0d1117] border border-[#30363d] rounded px-1.5 py-0.5 text-[#c9d1d9] focus:outline-none focus:border-[#1f6feb]">
+                  {outputFormats.map(format => <option key={format} value={format}>{outputFormatLabels[format]}</option>)}
+                </select>
+                <select value={options.outputEncoding} onChange={e => setOptions(p => ({ ...p, outputEncoding: e.target.value as OutputEncoding }))} title="Output encoding" className="bg-[#0d1117] border border-[#30363d] rounded px-1.5 py-0.5 text-[#c9d1d9] focus:outline-none focus:border-[#1f6feb]">
+                  {outputEncodings.map(encoding => <option key={encoding} value={encoding}>{outputEncodingLabels[encoding]}</option>)}
+                </select>
+                {options.outputEncoding === 'wp-cli' && <input value={options.postId} onChange={e => setOptions(p => ({ ...p, postId: e.target.value }))} placeholder={POST_ID_PLACEHOLDER} title="Post ID" className="w-20 bg-[#0d1117] border border-[#30363d] rounded px-1.5 py-0.5 text-[#c9d1d9] focus:outline-none focus:border-[#1f6feb]" />}
+                <div className="h-4 w-[1px] bg-[#30363d] mx-1"></div>
+                <button onClick={() => handlePrettify('output')} className="text-[#8b949e] hover:text-[#58a6ff]">Prettify</button>
+                <button onClick={() => handleMinify('output')} className="text-[#8b949e] hover:text-[#58a6ff]">Minify</button>
+                <div className="h-4 w-[1px] bg-[#30363d] mx-1"></div>
+                <button onClick={() => { navigator.clipboard.writeText(outputJSON); setCopyStatus('copied'); setTimeout(() => setCopyStatus('idle'), 2000); }} disabled={!outputJSON} className="flex items-center gap-1.5 px-3 py-1 font-semibold rounded bg-[#1f6feb] border border-[#1f6feb] text-white hover:bg-[#388bfd] transition-all">{copyStatus === 'copied' ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}<span>Copy</span></button>
+                <button onClick={handleDownload} disabled={!outputJSON} className="p-1.5 rounded bg-[#21262d] border border-[#30363d] text-[#c9d1d9] hover:bg-[#30363d] transition-all"><Download className="w-4 h-4" /></button>
+              </div>
+            </div>
+            <div className="flex-1 min-h-0">
+              {viewMode === 'diff'
+                ? <JsonDiffEditor original={inputJSON} modified={outputJSON} hideUnchangedRegions={hideUnchanged} onMount={(e) => { diffEditorRef.current = e; }} />
+                : <JsonEditor value={outputJSON} readOnly language={options.outputEncoding === 'wp-cli' ? 'shell' : 'json'} problems={options.outputEncoding === 'json' ? problems.output : []} onMount={(e) => { outputEditorRef.current = e; }} placeholder='Result will appear here...' />}
             </div>
-          )}
+            {stats && (
+              <div className={`grid ${statsColumns} gap-4 p-3 bg-[#161b22] border border-[#30363d] rounded-md text-[10px] shadow-sm`}>
+                <div className="flex flex-col"><span className="text-[#8b949e] uppercase font-bold tracking-widest">Format</span><span className="text-xs font-semibold truncate" title={inputFormatLabel}>{inputFormatLabel}</span></div>
+                <div className="flex flex-col"><span className="text-[#8b949e] uppercase font-bold tracking-widest">Original</span><span className="text-xs font-semibold">{formatByteSize(stats.originalSize)}</span></div>
+                <div className="flex flex-col"><span className="text-[#8b949e] uppercase font-bold tracking-widest">Result</span><span className="text-xs font-semibold text-green-400">{formatByteSize(stats.compressedSize)}</span></div>
+                <div className="flex flex-col"><span className="text-[#8b949e] uppercase font-bold tracking-widest">Save</span><span className="text-xs font-semibold text-[#1f6feb]">{stats.reductionPercentage.toFixed(1)}%</span></div>
+                <div className="flex flex-col"><span className="text-[#8b949e] uppercase font-bold tracking-widest">Removed</span><span className="text-xs font-semibold">{stats.removedKeys} keys</span></div>
+                <div className="flex flex-col" title={`${stats.removedDefaults} settings equal to their default`}><span className="text-[#8b949e] uppercase font-bold tracking-widest">Defaults</span><span className="text-xs font-semibold">{formatByteSize(stats.removedDefaultsBytes)}</span></div>
+                <button onClick={() => setShowChangeLog(v => !v)} className="flex flex-col items-start text-left group"><span className="text-[#8b949e] uppercase font-bold tracking-widest group-hover:text-[#58a6ff]">Changes</span><span className="flex items-center gap-1 text-xs font-semibold text-[#58a6ff]"><ListTree className="w-3 h-3" />{changes.length}</span></button>
+                {normalizedTextTotal !== undefined && <div className="flex flex-col" title={`${stats.normalizedText.characters} letters, ${stats.normalizedText.digits} digits, ${stats.normalizedText.zwnj} ZWNJ`}><span className="text-[#8b949e] uppercase font-bold tracking-widest">Text</span><span className="text-xs font-semibold">{normalizedTextTotal} fixes</span></div>}
+                {showCleanedHtml && <div className="flex flex-col" title={`${stats.cleanedHtml} text-editor fields cleaned`}><span className="text-[#8b949e] uppercase font-bold tracking-widest">HTML</span><span className="text-xs font-semibold">{formatByteSize(Math.max(0, stats.cleanedHtmlBytes))}</span></div>}
+                {showFindingsCount && <button onClick={() => setShowFindings(v => !v)} className="flex flex-col items-start text-left group"><span className="text-[#8b949e] uppercase font-bold tracking-widest group-hover:text-[#58a6ff]">Security</span><span className={`flex items-center gap-1 text-xs font-semibold ${findings.length > 0 ? 'text-red-400' : 'text-[#58a6ff]'}`}><ShieldAlert className="w-3 h-3" />{findings.length}</span></button>}
+                <button onClick={() => setShowSizes(v => !v)} disabled={!sizes} className="flex flex-col items-start text-left group"><span className="text-[#8b949e] uppercase font-bold tracking-widest group-hover:text-[#58a6ff]">Breakdown</span><span className="flex items-center gap-1 text-xs font-semibold text-[#58a6ff]"><BarChart3 className="w-3 h-3" />{sizes ? `~${formatByteSize(sizes.total.after.gzipBytes)}` : '-'}</span></button>
+              </div>
+            )}
+            {stats && showChangeLog && <ChangeLogPanel changes={changes} onClose={() => setShowChangeLog(false)} />}
+            {sizes && showSizes && <SizeReportPanel report={sizes} onClose={() => setShowSizes(false)} />}
+            {stats && showFindings && <SecurityPanel findings={findings} onSelect={handleSelectFinding} onClose={() => setShowFindings(false)} />}
+            {showProblems && <ProblemsPanel problems={problems} onSelect={handleSelectProblem} onClose={() => setShowProblems(false)} />}
+          </div>
         </div>
       </main>
 
@@ -394,34 +719,90 @@ const App: React.FC = () => {
         <div className={`absolute top-0 right-0 h-full w-full max-w-sm bg-[#161b22] border-l border-[#30363d] shadow-2xl transition-transform duration-300 transform ${showSettings ? 'translate-x-0' : 'translate-x-full'} overflow-y-auto`}>
           <div className="flex items-center justify-between p-6 border-b border-[#30363d] sticky top-0 bg-[#161b22] z-20"><div className="flex items-center gap-2"><Settings className="w-5 h-5 text-[#58a6ff]" /><h2 className="text-lg font-bold">Optimization Settings</h2></div><button onClick={() => setShowSettings(false)} className="p-2 hover:bg-[#30363d] rounded-md transition-colors"><X className="w-5 h-5" /></button></div>
           <div className="p-6 space-y-8 pb-24">
+            {ruleCategories.map(({ category, title }) => (
+              <div key={category} className="space-y-4">
+                <h3 className="text-xs font-bold text-[#8b949e] uppercase tracking-wider">{title}</h3>
+                {category === 'direction' && <SegmentedSelect value={options.direction} options={directionModes} labels={directionLabels} onChange={direction => setOptions(p => ({ ...p, direction }))} />}
+                {ruleRegistry.filter(rule => rule.category === category && !rule.paddingKey).map(rule => (
+                  <div key={rule.id} className={`space-y-3 ${rule.requires ? 'pl-4 border-l border-[#30363d]' : ''}`}>
+                    <Switch label={rule.label} checked={isRuleToggled(options, rule)} onChange={v => handleToggleRule(rule.id, v)} description={rule.description} disabled={(category === 'direction' && options.direction === 'keep') || (!!rule.requires && !isRuleEnabled(options, getRule(rule.requires)!))} />
+                    {rule.id === 'clean-html' && (
+                      <div className={`space-y-3 pl-4 border-l border-[#30363d] ${isRuleEnabled(options, rule) ? '' : 'opacity-50 pointer-events-none'}`}>
+                        <ListInput label="Allowed Tags" values={options.htmlCleaning.allowedTags} onChange={allowedTags => setOptions(p => ({ ...p, htmlCleaning: { ...p.htmlCleaning, allowedTags } }))} />
+                        <ListInput label="Allowed Attributes" values={options.htmlCleaning.allowedAttributes} onChange={allowedAttributes => setOptions(p => ({ ...p, htmlCleaning: { ...p.htmlCleaning, allowedAttributes } }))} />
+                      </div>
+                    )}
+                    {rule.id === 'sanitize' && (
+                      <div className={`space-y-3 pl-4 border-l border-[#30363d] ${isRuleEnabled(options, rule) ? '' : 'opacity-50 pointer-events-none'}`}>
+                        <Switch label="Strict Mode" checked={options.strictSanitize} onChange={strictSanitize => setOptions(p => ({ ...p, strictSanitize }))} description="Fail the conversion instead of neutralizing" />
+                      </div>
+                    )}
+                    {rule.id === 'normalize-text' && (
+                      <div className={`space-y-3 pl-4 border-l border-[#30363d] ${isRuleEnabled(options, rule) ? '' : 'opacity-50 pointer-events-none'}`}>
+                        <Switch label="Persian Letters" checked={options.textNormalization.characters} onChange={characters => setOptions(p => ({ ...p, textNormalization: { ...p.textNormalization, characters } }))} description="Arabic ي / ك to Persian ی / ک" />
+                        <Switch label="Fix ZWNJ" checked={options.textNormalization.zwnj} onChange={zwnj => setOptions(p => ({ ...p, textNormalization: { ...p.textNormalization, zwnj } }))} description="Drop stray half-spaces, join می / ها" />
+                        <div className="space-y-2">
+                          <span className="text-[10px] text-[#8b949e] uppercase font-bold tracking-widest">Digits</span>
+                          <SegmentedSelect value={options.textNormalization.digits} options={digitStyles} labels={digitStyleLabels} onChange={digits => setOptions(p => ({ ...p, textNormalization: { ...p.textNormalization, digits } }))} />
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ))}
+
+            <div className="space-y-4">
+              <h3 className="text-xs font-bold text-[#8b949e] uppercase tracking-wider">Breakpoints</h3>
+              {BREAKPOINTS.filter(bp => !DEFAULT_BREAKPOINTS.includes(bp)).map(bp => (
+                <Switch key={bp} label={breakpointMeta[bp].label} checked={options.breakpoints.includes(bp)} onChange={v => handleToggleBreakpoint(bp, v)} description={`Write and clean *_${bp} settings`} />
+              ))}
+            </div>
+
             <div className="space-y-4">
-              <h3 className="text-xs font-bold text-[#8b949e] uppercase tracking-wider">General Options</h3>
-              <Switch label="RTLize" checked={options.rtlize} onChange={v => setOptions(p => ({...p, rtlize: v}))} description="Mirror layout & alignments (Default: ON)" />
-              <Switch label="Remove Margins" checked={options.removeMargins} onChange={v => setOptions(p => ({...p, removeMargins: v}))} description="Strip all container margins" />
-              <Switch label="Strip Level 2 Paddings" checked={options.removeLevel2Padding} onChange={v => setOptions(p => ({...p, removeLevel2Padding: v}))} description="Remove all paddings from Level 2" />
-              <Switch label="Strip Level 3+ Paddings" checked={options.removeLevel3Padding} onChange={v => setOptions(p => ({...p, removeLevel3Padding: v}))} description="Remove all paddings from Inner" />
-              <Switch label="Auto Rename" checked={options.autoRename} onChange={v => setOptions(p => ({...p, autoRename: v}))} description="Section / Container / Inner" />
-              <Switch label="Strip Animations" checked={options.removeMotionFX} onChange={v => setOptions(p => ({...p, removeMotionFX: v}))} description="Strip MotionFX properties" />
+              <h3 className="text-xs font-bold text-[#8b949e] uppercase tracking-wider">Page Settings</h3>
+              <SegmentedSelect value={options.pageSettings} options={pageSettingsPolicies} labels={pageSettingsLabels} onChange={pageSettings => setOptions(p => ({ ...p, pageSettings }))} />
+              <p className="text-[10px] text-[#8b949e]">Template exports only. Element rules never touch page settings; Clean drops empty values.</p>
+            </div>
+
+            <div className="space-y-4">
+              <h3 className="text-xs font-bold text-[#8b949e] uppercase tracking-wider">Translations</h3>
+              <SegmentedSelect value={translationFormat} options={['po', 'xliff', 'csv']} labels={translationFormatLabels} onChange={setTranslationFormat} />
+              <div className="grid grid-cols-2 gap-2">
+                <button onClick={handleExportStrings} disabled={!inputJSON.trim()} className="flex items-center justify-center gap-1.5 px-2 py-1.5 text-xs rounded bg-[#21262d] border border-[#30363d] text-[#c9d1d9] hover:bg-[#30363d] disabled:opacity-50 transition-colors"><Download className="w-3.5 h-3.5" />Export Strings</button>
+                <label className="flex items-center justify-center gap-1.5 px-2 py-1.5 text-xs rounded bg-[#21262d] border border-[#30363d] text-[#c9d1d9] hover:bg-[#30363d] cursor-pointer transition-colors"><Upload className="w-3.5 h-3.5" />Import<input type="file" className="hidden" accept=".po,.pot,.xlf,.xliff,.csv" onChange={handleImportTranslations} /></label>
+              </div>
+              {translations && (
+                <div className="flex items-center gap-2 px-3 py-2 rounded-md border border-[#30363d] bg-[#0d1117] text-xs">
+                  <Languages className="w-3.5 h-3.5 text-[#58a6ff]" />
+                  <span className="flex-1 min-w-0 truncate" title={translations.fileName}>{Object.keys(translations.map).length} strings from {translations.fileName}</span>
+                  <button onClick={() => setTranslations(null)} className="text-[#8b949e] hover:text-red-400"><X className="w-3.5 h-3.5" /></button>
+                </div>
+              )}
+              <p className="text-[10px] text-[#8b949e]">Strings are keyed by element id and setting path. Imported translations are written back on every conversion, before the direction rules run.</p>
+            </div>
+
+            <div className="space-y-4">
+              <h3 className="text-xs font-bold text-[#8b949e] uppercase tracking-wider">Editor</h3>
               <Switch label="Auto Format" checked={options.autoFormatOnPaste} onChange={v => setOptions(p => ({...p, autoFormatOnPaste: v}))} description="Beautify JSON on input" />
               <Switch label="Auto Convert" checked={options.autoConvertOnPaste} onChange={v => setOptions(p => ({...p, autoConvertOnPaste: v}))} description="Optimise instantly on paste" />
             </div>
 
             <div className="space-y-6 pt-4 border-t border-[#30363d]">
-              {/* L1 */}
-              <div className="space-y-4">
-                <div className="flex items-center justify-between"><h3 className="text-xs font-bold text-[#f0f6fc] uppercase tracking-wider">Level 1 (Sections)</h3><Switch label="" checked={options.applyMotherPadding} onChange={v => setOptions(p => ({...p, applyMotherPadding: v}))} /></div>
-                {options.applyMotherPadding && <div className="space-y-4 animate-in fade-in duration-200"><PaddingGrid title="Desktop" icon={Monitor} values={options.motherPadding.desktop} onChange={(k,v) => handleUpdatePadding('mother', 'desktop', k, v)} /><PaddingGrid title="Tablet" icon={Tablet} values={options.motherPadding.tablet} onChange={(k,v) => handleUpdatePadding('mother', 'tablet', k, v)} /><PaddingGrid title="Mobile" icon={Smartphone} values={options.motherPadding.mobile} onChange={(k,v) => handleUpdatePadding('mother', 'mobile', k, v)} /></div>}
-              </div>
-              {/* L2 */}
-              <div className="space-y-4 pt-4 border-t border-[#30363d]">
-                <div className="flex items-center justify-between"><h3 className="text-xs font-bold text-[#f0f6fc] uppercase tracking-wider">Level 2 (Containers)</h3><Switch label="" checked={options.applyLevel2Padding} onChange={v => setOptions(p => ({...p, applyLevel2Padding: v}))} /></div>
-                {options.applyLevel2Padding && <div className="space-y-4 animate-in fade-in duration-200"><PaddingGrid title="Desktop" icon={Monitor} values={options.level2Padding.desktop} onChange={(k,v) => handleUpdatePadding('level2', 'desktop', k, v)} /><PaddingGrid title="Tablet" icon={Tablet} values={options.level2Padding.tablet} onChange={(k,v) => handleUpdatePadding('level2', 'tablet', k, v)} /><PaddingGrid title="Mobile" icon={Smartphone} values={options.level2Padding.mobile} onChange={(k,v) => handleUpdatePadding('level2', 'mobile', k, v)} /></div>}
-              </div>
-              {/* L3+ */}
-              <div className="space-y-4 pt-4 border-t border-[#30363d]">
-                <div className="flex items-center justify-between"><h3 className="text-xs font-bold text-[#f0f6fc] uppercase tracking-wider">Level 3+ (Inner)</h3><Switch label="" checked={options.applyLevel3Padding} onChange={v => setOptions(p => ({...p, applyLevel3Padding: v}))} /></div>
-                {options.applyLevel3Padding && <div className="space-y-4 animate-in fade-in duration-200"><PaddingGrid title="Desktop" icon={Monitor} values={options.level3Padding.desktop} onChange={(k,v) => handleUpdatePadding('level3', 'desktop', k, v)} /><PaddingGrid title="Tablet" icon={Tablet} values={options.level3Padding.tablet} onChange={(k,v) => handleUpdatePadding('level3', 'tablet', k, v)} /><PaddingGrid title="Mobile" icon={Smartphone} values={options.level3Padding.mobile} onChange={(k,v) => handleUpdatePadding('level3', 'mobile', k, v)} /></div>}
-              </div>
+              {ruleRegistry.filter(rule => rule.paddingKey).map((rule, i) => {
+                const paddingKey = rule.paddingKey!;
+                const enabled = isRuleEnabled(options, rule);
+                return (
+                  <div key={rule.id} className={`space-y-4 ${i > 0 ? 'pt-4 border-t border-[#30363d]' : ''}`}>
+                    <div className="flex items-center justify-between"><h3 className="text-xs font-bold text-[#f0f6fc] uppercase tracking-wider">{rule.label}</h3><Switch label="" checked={enabled} onChange={v => handleToggleRule(rule.id, v)} /></div>
+                    {enabled && <div className="space-y-4 animate-in fade-in duration-200">{activeBreakpoints(options.breakpoints).map(bp => <PaddingGrid key={bp} title={breakpointMeta[bp].label} icon={breakpointMeta[bp].icon} values={resolveDevicePadding(options[paddingKey], bp)} onChange={(k,v) => handleUpdatePadding(paddingKey, bp, k, v)} />)}</div>}
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="pt-4 border-t border-[#30363d]">
+              <CustomRulesEditor rules={options.customRules} onChange={customRules => setOptions(p => ({ ...p, customRules }))} />
             </div>
           </div>
         </div>
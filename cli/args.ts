@@ -0,0 +1,209 @@
+import { Breakpoint, CompressorOptions, CompressorRuleId, DirectionMode, OutputEncoding, OutputFormat, PageSettingsPolicy, TranslationFormat } from '../types';
+import { defaultOptions, directionModes, outputEncodings, outputFormats, pageSettingsPolicies } from '../utils/options';
+import { BREAKPOINTS } from '../utils/responsive';
+import { ruleRegistry } from '../utils/rules';
+import { translationFileExtensions } from '../utils/translations';
+
+export interface CliArgs {
+  inputs: string[];
+  configPath?: string;
+  /** PO, XLIFF or CSV file whose translated strings are written back during conversion */
+  translationsPath?: string;
+  /** Write translatable strings in this format instead of converting */
+  extractStrings?: TranslationFormat;
+  outDir?: string;
+  suffix: string;
+  minify: boolean;
+  dryRun: boolean;
+  quiet: boolean;
+  json: boolean;
+  help: boolean;
+  /** Boolean option and rule overrides given as `--flag` / `--no-flag` */
+  overrides: Partial<CompressorOptions> & { rules: Partial<Record<CompressorRuleId, boolean>> };
+}
+
+export class UsageError extends Error {}
+
+type BooleanOptionKey = {
+  [K in keyof CompressorOptions]: CompressorOptions[K] extends boolean ? K : never;
+}[keyof CompressorOptions];
+
+const toKebab = (key: string): string => key.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+
+/**
+ * Maps `--auto-format-on-paste` style flags onto the boolean keys of CompressorOptions.
+ * Rules are toggled by their id, e.g. `--no-mirror-layout`.
+ */
+export const optionFlags: Record<string, BooleanOptionKey> = Object.fromEntries(
+  (Object.keys(defaultOptions) as (keyof CompressorOptions)[])
+    .filter(key => typeof defaultOptions[key] === 'boolean')
+    .map(key => [toKebab(key), key as BooleanOptionKey])
+);
+
+export const HELP_TEXT = `Usage: elementor-compressor [options] <file|dir|glob...>
+
+Optimizes Elementor JSON exports using the same rules as the web app.
+
+Output:
+  -o, --out-dir <dir>     Write results into <dir>, mirroring directory structure
+  -s, --suffix <suffix>   Suffix added next to the input file (default: ".min")
+  -m, --minify            Write minified JSON instead of pretty-printed
+  -f, --format <format>   Output envelope: ${outputFormats.join(', ')} (default: ${defaultOptions.outputFormat})
+                          auto keeps the input's; clipboard pastes into Elementor, template imports as a file
+  -e, --encoding <enc>    Output encoding: ${outputEncodings.join(', ')} (default: ${defaultOptions.outputEncoding})
+                          postmeta writes a _elementor_data string, wp-cli a .sh "wp post meta update" command
+      --post-id <id>      Post the wp-cli command updates (default: "$POST_ID" shell variable)
+  -n, --dry-run           Compress and report without writing any file
+  -q, --quiet             Only print the total line and errors
+      --json              Print the per-file stats and total as JSON
+
+Options:
+  -c, --config <file>     Read CompressorOptions from a JSON file
+  -t, --translations <file>
+                          Write translated strings from a PO, XLIFF or CSV file back during conversion
+      --extract-strings <format>
+                          Write translatable strings as ${Object.keys(translationFileExtensions).join(', ')} next to each input
+                          (or into --out-dir) instead of converting
+  -d, --direction <mode>  Direction conversion: ${directionModes.join(', ')} (default: ${defaultOptions.direction})
+  -b, --breakpoints <list>
+                          Comma-separated breakpoints active on the site, e.g. laptop,tablet_extra
+                          (desktop, tablet and mobile are always active)
+      --page-settings <policy>
+                          Template page settings: ${pageSettingsPolicies.join(', ')} (default: ${defaultOptions.pageSettings})
+${Object.keys(optionFlags).map(flag => `      --[no-]${flag}`).join('\n')}
+
+Rules (default in brackets):
+${ruleRegistry.map(rule => `      --[no-]${rule.id.padEnd(26)}${rule.description} [${rule.defaultEnabled ? 'on' : 'off'}]`).join('\n')}
+
+  -h, --help              Show this help
+
+Exit codes: 0 success, 1 one or more files failed, 2 invalid usage.
+`;
+
+/**
+ * Parses process arguments. Throws UsageError on unknown flags or missing values.
+ */
+export const parseArgs = (argv: string[]): CliArgs => {
+  const args: CliArgs = {
+    inputs: [],
+    suffix: '.min',
+    minify: false,
+    dryRun: false,
+    quiet: false,
+    json: false,
+    help: false,
+    overrides: { rules: {} }
+  };
+
+  const takeValue = (flag: string, index: number): string => {
+    const value = argv[index + 1];
+    if (value === undefined || value.startsWith('-')) throw new UsageError(`Missing value for ${flag}`);
+    return value;
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === '--') {
+      args.inputs.push(...argv.slice(i + 1));
+      break;
+    }
+
+    if (!arg.startsWith('-') || arg === '-') {
+      args.inputs.push(arg);
+      continue;
+    }
+
+    switch (arg) {
+      case '-h':
+      case '--help':
+        args.help = true;
+        continue;
+      case '-c':
+      case '--config':
+        args.configPath = takeValue(arg, i++);
+        continue;
+      case '-d':
+      case '--direction': {
+        const direction = takeValue(arg, i++) as DirectionMode;
+        if (!directionModes.includes(direction)) throw new UsageError(`Invalid direction: ${direction} (expected ${directionModes.join(', ')})`);
+        args.overrides.direction = direction;
+        continue;
+      }
+      case '-b':
+      case '--breakpoints': {
+        const breakpoints = takeValue(arg, i++).split(',').map(bp => bp.trim()).filter(Boolean);
+        const unknown = breakpoints.find(bp => !BREAKPOINTS.includes(bp as Breakpoint));
+        if (unknown) throw new UsageError(`Unknown breakpoint: ${unknown} (expected ${BREAKPOINTS.join(', ')})`);
+        args.overrides.breakpoints = breakpoints as Breakpoint[];
+        continue;
+      }
+      case '-f':
+      case '--format': {
+        const format = takeValue(arg, i++) as OutputFormat;
+        if (!outputFormats.includes(format)) throw new UsageError(`Invalid format: ${format} (expected ${outputFormats.join(', ')})`);
+        args.overrides.outputFormat = format;
+        continue;
+      }
+      case '-e':
+      case '--encoding': {
+        const encoding = takeValue(arg, i++) as OutputEncoding;
+        if (!outputEncodings.includes(encoding)) throw new UsageError(`Invalid encoding: ${encoding} (expected ${outputEncodings.join(', ')})`);
+        args.overrides.outputEncoding = encoding;
+        continue;
+      }
+      case '--post-id':
+        args.overrides.postId = takeValue(arg, i++);
+        continue;
+      case '--page-settings': {
+        const policy = takeValue(arg, i++) as PageSettingsPolicy;
+        if (!pageSettingsPolicies.includes(policy)) throw new UsageError(`Invalid page settings policy: ${policy} (expected ${pageSettingsPolicies.join(', ')})`);
+        args.overrides.pageSettings = policy;
+        continue;
+      }
+      case '-t':
+      case '--translations':
+        args.translationsPath = takeValue(arg, i++);
+        continue;
+      case '--extract-strings': {
+        const format = takeValue(arg, i++) as TranslationFormat;
+        if (!(format in translationFileExtensions)) throw new UsageError(`Invalid strings format: ${format} (expected ${Object.keys(translationFileExtensions).join(', ')})`);
+        args.extractStrings = format;
+        continue;
+      }
+      case '-o':
+      case '--out-dir':
+        args.outDir = takeValue(arg, i++);
+        continue;
+      case '-s':
+      case '--suffix':
+        args.suffix = takeValue(arg, i++);
+        continue;
+      case '-m':
+      case '--minify':
+        args.minify = true;
+        continue;
+      case '-n':
+      case '--dry-run':
+        args.dryRun = true;
+        continue;
+      case '-q':
+      case '--quiet':
+        args.quiet = true;
+        continue;
+      case '--json':
+        args.json = true;
+        continue;
+    }
+
+    const negated = arg.startsWith('--no-');
+    const flag = negated ? arg.slice(5) : arg.slice(2);
+    const rule = ruleRegistry.find(r => r.id === flag);
+    const key = optionFlags[flag];
+    if (!arg.startsWith('--') || (!rule && !key)) throw new UsageError(`Unknown option: ${arg}`);
+    if (rule) args.overrides.rules[rule.id] = !negated;
+    else args.overrides[key] = !negated;
+  }
+
+  return args;
+};
@@ -0,0 +1,39 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { expandInputs, skipPreviousOutputs } from './files';
+
+describe('skipPreviousOutputs', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'ec-files-'));
+    mkdirSync(path.join(dir, 'pages'));
+    for (const name of ['pages/home.json', 'pages/home.min.json', 'pages/home.min.sh', 'foo.min.json']) writeFileSync(path.join(dir, name), '[]');
+  });
+
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  const names = (args: string[]) => skipPreviousOutputs(expandInputs(args, dir), '.min').map(f => f.relative);
+
+  it('skips outputs found in directories and by globs', () => {
+    expect(names(['pages'])).toEqual(['home.json']);
+    expect(names(['pages/*.json'])).toEqual(['home.json']);
+  });
+
+  it('keeps files named on the command line', () => {
+    expect(names(['foo.min.json'])).toEqual(['foo.min.json']);
+    expect(names(['pages', 'pages/home.min.json'])).toEqual(['home.json', 'home.min.json']);
+  });
+
+  it('keeps everything without a suffix', () => {
+    expect(skipPreviousOutputs(expandInputs(['pages'], dir), '').length).toBe(2);
+  });
+
+  it('skips outputs written with another extension', () => {
+    const sh = (args: string[]) => skipPreviousOutputs(expandInputs(args, dir), '.min', '.sh').map(f => f.relative);
+    expect(sh(['pages/*'])).toEqual(['home.json', 'home.min.json']);
+    expect(names(['pages/*'])).toEqual(['home.json']);
+  });
+});
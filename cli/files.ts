@@ -0,0 +1,145 @@
+import { readdirSync, statSync } from 'node:fs';
+import path from 'node:path';
+
+export interface InputFile {
+  /** Absolute path of the file on disk */
+  absolute: string;
+  /** Path relative to the argument it came from, used to mirror structure into --out-dir */
+  relative: string;
+  /** Named on the command line, rather than found in a directory or by a glob */
+  explicit: boolean;
+}
+
+const hasGlob = (pattern: string): boolean => /[*?[\]{}]/.test(pattern);
+
+/**
+ * Converts a glob pattern (`*`, `**`, `?`, `{a,b}`, `[abc]`) into an anchored regular expression.
+ */
+const globToRegExp = (pattern: string): RegExp => {
+  let re = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === '*') {
+      if (pattern[i + 1] === '*') {
+        i++;
+        if (pattern[i + 1] === '/') {
+          i++;
+          re += '(?:.*/)?';
+        } else {
+          re += '.*';
+        }
+      } else {
+        re += '[^/]*';
+      }
+    } else if (c === '?') {
+      re += '[^/]';
+    } else if (c === '{') {
+      const end = pattern.indexOf('}', i);
+      if (end === -1) {
+        re += '\\{';
+        continue;
+      }
+      re += '(?:' + pattern.slice(i + 1, end).split(',').map(p => p.replace(/[.+^$()|\\]/g, '\\$&')).join('|') + ')';
+      i = end;
+    } else if (c === '[') {
+      const end = pattern.indexOf(']', i);
+      if (end === -1) {
+        re += '\\[';
+        continue;
+      }
+      re += pattern.slice(i, end + 1);
+      i = end;
+    } else {
+      re += c.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${re}$`);
+};
+
+const walk = (dir: string): string[] => {
+  const result: string[] = [];
+  const entries = readdirSync(dir, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name));
+  for (const entry of entries) {
+    if (entry.name === 'node_modules' || entry.name.startsWith('.')) continue;
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) result.push(...walk(full));
+    else if (entry.isFile()) result.push(full);
+  }
+  return result;
+};
+
+const toPosix = (p: string): string => p.split(path.sep).join('/');
+
+/**
+ * Expands CLI arguments (files, directories and glob patterns) into a de-duplicated list of JSON files.
+ * Directories are searched recursively for `*.json`. Throws when an argument matches nothing.
+ */
+export const expandInputs = (args: string[], cwd: string = process.cwd()): InputFile[] => {
+  const seen = new Set<string>();
+  const files: InputFile[] = [];
+
+  const add = (absolute: string, relative: string, explicit = false) => {
+    if (seen.has(absolute)) {
+      if (explicit) files.find(f => f.absolute === absolute)!.explicit = true;
+      return;
+    }
+    seen.add(absolute);
+    files.push({ absolute, relative, explicit });
+  };
+
+  for (const arg of args) {
+    if (hasGlob(arg)) {
+      const posix = toPosix(arg);
+      const segments = posix.split('/');
+      const firstGlob = segments.findIndex(hasGlob);
+      const base = path.resolve(cwd, segments.slice(0, firstGlob).join('/') || '.');
+      const matcher = globToRegExp(segments.slice(firstGlob).join('/'));
+      let matched = 0;
+      try {
+        for (const file of walk(base)) {
+          const rel = toPosix(path.relative(base, file));
+          if (matcher.test(rel)) {
+            add(file, rel);
+            matched++;
+          }
+        }
+      } catch (e) {
+        // An unreadable base directory simply yields no matches
+      }
+      if (matched === 0) throw new Error(`No files match "${arg}"`);
+      continue;
+    }
+
+    const absolute = path.resolve(cwd, arg);
+    let stat;
+    try {
+      stat = statSync(absolute);
+    } catch (e) {
+      throw new Error(`Input not found: ${arg}`);
+    }
+
+    if (stat.isDirectory()) {
+      const jsonFiles = walk(absolute).filter(f => f.toLowerCase().endsWith('.json'));
+      if (jsonFiles.length === 0) throw new Error(`No JSON files found in directory "${arg}"`);
+      jsonFiles.forEach(f => add(f, toPosix(path.relative(absolute, f))));
+    } else {
+      add(absolute, path.basename(absolute), true);
+    }
+  }
+
+  return files;
+};
+
+/**
+ * Drops previous outputs (`name<suffix><extension>`) found in directories or by globs, so re-runs over
+ * the same directory don't compress them again. `extension` is the one the outputs are written with;
+ * without it outputs keep the extension of their input. Files named on the command line are always kept.
+ */
+export const skipPreviousOutputs = (files: InputFile[], suffix: string, extension?: string): InputFile[] => {
+  if (!suffix) return files;
+  return files.filter(f => {
+    const ext = path.extname(f.absolute);
+    const isOutput = f.absolute.slice(0, f.absolute.length - ext.length).endsWith(suffix) && (extension ?? ext) === ext;
+    return f.explicit || !isOutput;
+  });
+};
@@ -0,0 +1,245 @@
+#!/usr/bin/env node
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import {
+  CompressorOptions,
+  CompressorStats,
+  ElementorDocumentFormat,
+  JsonObject,
+  InputEncoding,
+  SecurityFinding,
+  TextNormalizationCounts,
+  TranslationFormat,
+  TranslationMap
+} from '../types';
+import { getIdMap } from '../utils/changeLog';
+import { addTextNormalizationCounts, emptyTextNormalizationCounts } from '../utils/persianText';
+import { formatByteSize } from '../utils/compressor';
+import { mergeOptions } from '../utils/options';
+import { isJsonObject, parseElementorDocument } from '../utils/elementor';
+import { convertElementorInput } from '../utils/pipeline';
+import { decodeElementorData } from '../utils/postmeta';
+import { securityFindingLabels } from '../utils/sanitize';
+import {
+  detectTranslationFormat,
+  extractTranslations,
+  parseTranslations,
+  serializeTranslations,
+  translationFileExtensions
+} from '../utils/translations';
+import { CliArgs, HELP_TEXT, UsageError, parseArgs } from './args';
+import { InputFile, expandInputs, skipPreviousOutputs } from './files';
+
+const EXIT_OK = 0;
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+
+interface FileResult {
+  input: string;
+  output?: string;
+  /** Envelope the input was found in */
+  format?: ElementorDocumentFormat;
+  encoding?: InputEncoding;
+  stats?: CompressorStats;
+  /** Old → new element ids when `regenerate-ids` is on */
+  idMap?: Record<string, string>;
+  /** Strings replaced from the translations file */
+  translated?: number;
+  /** Strings written by --extract-strings */
+  strings?: number;
+  /** Dangerous content neutralized by the `sanitize` rule */
+  findings?: SecurityFinding[];
+  error?: string;
+}
+
+/** Reads a config file; its fields are checked by `mergeOptions` */
+const loadConfig = (configPath: string): JsonObject => {
+  let raw: string;
+  try {
+    raw = readFileSync(configPath, 'utf8');
+  } catch (e) {
+    throw new UsageError(`Cannot read config file: ${configPath}`);
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (e: any) {
+    throw new UsageError(`Invalid JSON in config file ${configPath}: ${e.message}`);
+  }
+  if (!isJsonObject(parsed)) {
+    throw new UsageError(`Config file ${configPath} must contain a JSON object`);
+  }
+  return parsed;
+};
+
+const loadTranslations = (translationsPath: string): TranslationMap => {
+  let raw: string;
+  try {
+    raw = readFileSync(translationsPath, 'utf8');
+  } catch (e) {
+    throw new UsageError(`Cannot read translations file: ${translationsPath}`);
+  }
+  try {
+    return parseTranslations(raw, detectTranslationFormat(raw, translationsPath));
+  } catch (e: any) {
+    throw new UsageError(`Invalid translations file ${translationsPath}: ${e.message}`);
+  }
+};
+
+/** WP-CLI output is a shell script; other outputs keep the extension of their input */
+const outputExtension = (options: CompressorOptions): string | undefined => (options.outputEncoding === 'wp-cli' ? '.sh' : undefined);
+
+const resolveOutputPath = (file: InputFile, outDir: string | undefined, suffix: string, extension?: string): string => {
+  const ext = path.extname(file.relative);
+  const stem = file.relative.slice(0, file.relative.length - ext.length);
+  const name = `${stem}${suffix}${extension ?? (ext || '.json')}`;
+  return outDir ? path.resolve(outDir, name) : path.join(path.dirname(file.absolute), path.basename(name));
+};
+
+const processFile = (
+  file: InputFile,
+  options: CompressorOptions,
+  outputPath: string,
+  minify: boolean,
+  dryRun: boolean,
+  translations?: TranslationMap
+): FileResult => {
+  const input = path.relative(process.cwd(), file.absolute) || file.absolute;
+  try {
+    const raw = readFileSync(file.absolute, 'utf8');
+    const result = convertElementorInput(raw, options, { minify, translations });
+    if (!dryRun) {
+      mkdirSync(path.dirname(outputPath), { recursive: true });
+      writeFileSync(outputPath, result.output);
+    }
+    const idMap = getIdMap(result.changes);
+    const translated = result.changes.filter(change => change.rule === 'translation').length;
+    return {
+      input,
+      output: path.relative(process.cwd(), outputPath),
+      format: result.format,
+      encoding: result.encoding,
+      stats: result.stats,
+      ...(Object.keys(idMap).length > 0 && { idMap }),
+      ...(translations && { translated }),
+      ...(result.findings.length > 0 && { findings: result.findings })
+    };
+  } catch (e: any) {
+    return { input, error: e.message };
+  }
+};
+
+const extractFile = (file: InputFile, format: TranslationFormat, outputPath: string, dryRun: boolean): FileResult => {
+  const input = path.relative(process.cwd(), file.absolute) || file.absolute;
+  try {
+    const { value, encoding } = decodeElementorData(readFileSync(file.absolute, 'utf8'));
+    const units = extractTranslations(parseElementorDocument(value));
+    if (!dryRun) {
+      mkdirSync(path.dirname(outputPath), { recursive: true });
+      writeFileSync(outputPath, serializeTranslations(units, format));
+    }
+    return { input, output: path.relative(process.cwd(), outputPath), encoding, strings: units.length };
+  } catch (e: any) {
+    return { input, error: e.message };
+  }
+};
+
+const sumStats = (results: FileResult[]): CompressorStats => {
+  const total = results.reduce(
+    (acc, r) => {
+      if (!r.stats) return acc;
+      acc.originalSize += r.stats.originalSize;
+      acc.compressedSize += r.stats.compressedSize;
+      acc.removedKeys += r.stats.removedKeys;
+      acc.removedDefaults += r.stats.removedDefaults;
+      acc.removedDefaultsBytes += r.stats.removedDefaultsBytes;
+      acc.normalizedText = addTextNormalizationCounts(acc.normalizedText, r.stats.normalizedText);
+      acc.cleanedHtml += r.stats.cleanedHtml;
+      acc.cleanedHtmlBytes += r.stats.cleanedHtmlBytes;
+      return acc;
+    },
+    {
+      originalSize: 0,
+      compressedSize: 0,
+      reductionPercentage: 0,
+      removedKeys: 0,
+      removedDefaults: 0,
+      removedDefaultsBytes: 0,
+      normalizedText: emptyTextNormalizationCounts(),
+      cleanedHtml: 0,
+      cleanedHtmlBytes: 0
+    }
+  );
+  total.reductionPercentage = total.originalSize > 0 ? ((total.originalSize - total.compressedSize) / total.originalSize) * 100 : 0;
+  return total;
+};
+
+const plural = (count: number, noun: string): string => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const formatNormalizedText = ({ characters, digits, zwnj }: TextNormalizationCounts): string =>
+  characters + digits + zwnj > 0 ? `, normalized ${characters} letters, ${digits} digits, ${zwnj} ZWNJ` : '';
+
+const formatStats = (stats: CompressorStats): string =>
+  `${formatByteSize(stats.originalSize)} -> ${formatByteSize(stats.compressedSize)} (${stats.reductionPercentage >= 0 ? '-' : '+'}${Math.abs(stats.reductionPercentage).toFixed(1)}%), removed ${stats.removedKeys} keys` +
+  (stats.removedDefaults > 0 ? ` (${stats.removedDefaults} defaults, ${formatByteSize(stats.removedDefaultsBytes)})` : '') +
+  formatNormalizedText(stats.normalizedText) +
+  (stats.cleanedHtml > 0 ? `, cleaned ${plural(stats.cleanedHtml, 'HTML field')} (${formatByteSize(stats.cleanedHtmlBytes)})` : '');
+
+export const run = (argv: string[]): number => {
+  let args: CliArgs;
+  let options: CompressorOptions;
+  let files: InputFile[];
+  let translations: TranslationMap | undefined;
+
+  try {
+    args = parseArgs(argv);
+    if (args.help) {
+      process.stdout.write(HELP_TEXT);
+      return EXIT_OK;
+    }
+    if (args.inputs.length === 0) throw new UsageError('No input files given');
+
+    options = mergeOptions(args.overrides, mergeOptions(args.configPath ? loadConfig(args.configPath) : {}));
+    if (args.translationsPath) translations = loadTranslations(args.translationsPath);
+    files = skipPreviousOutputs(expandInputs(args.inputs), args.suffix, outputExtension(options));
+    if (files.length === 0) throw new UsageError('No input files left to process');
+  } catch (e: any) {
+    process.stderr.write(`elementor-compressor: ${e.message}\n`);
+    if (e instanceof UsageError) process.stderr.write(`Run with --help for usage.\n`);
+    return EXIT_USAGE;
+  }
+
+  const { extractStrings } = args;
+  const results = files.map(file =>
+    extractStrings
+      ? extractFile(file, extractStrings, resolveOutputPath(file, args.outDir, '', `.${translationFileExtensions[extractStrings]}`), args.dryRun)
+      : processFile(file, options, resolveOutputPath(file, args.outDir, args.suffix, outputExtension(options)), args.minify, args.dryRun, translations)
+  );
+  const failed = results.filter(r => r.error);
+  const total = sumStats(results);
+  const strings = results.reduce((sum, r) => sum + (r.strings ?? 0), 0);
+
+  if (args.json) {
+    process.stdout.write(JSON.stringify({ files: results, total: extractStrings ? { strings } : total, failed: failed.length }, null, 2) + '\n');
+  } else {
+    for (const r of results) {
+      if (r.error) {
+        process.stderr.write(`✗ ${r.input}: ${r.error}\n`);
+      } else if (!args.quiet) {
+        const summary = r.stats
+          ? `${formatStats(r.stats)}${r.translated !== undefined ? `, translated ${plural(r.translated, 'string')}` : ''}` +
+            (r.findings ? `, neutralized ${plural(r.findings.length, 'dangerous item')}` : '')
+          : plural(r.strings ?? 0, 'string');
+        process.stdout.write(`✓ ${r.input}${args.dryRun ? '' : ` -> ${r.output}`}: ${summary}\n`);
+        for (const finding of r.findings ?? []) {
+          process.stdout.write(`  ! ${securityFindingLabels[finding.kind]} at ${finding.path}: ${finding.snippet}\n`);
+        }
+      }
+    }
+    process.stdout.write(`Total: ${results.length - failed.length}/${results.length} files, ${extractStrings ? plural(strings, 'string') : formatStats(total)}\n`);
+  }
+
+  return failed.length > 0 ? EXIT_FAILED : EXIT_OK;
+};
+
+process.exitCode = run(process.argv.slice(2));
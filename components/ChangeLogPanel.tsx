@@ -0,0 +1,91 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, FileText, ListTree, X } from 'lucide-react';
+import { ChangeLogEntry, JsonValue } from '../types';
+import { changeLogToJSON, changeLogToMarkdown, getIdMap, groupChangesByElement, groupChangesByRule } from '../utils/changeLog';
+import { downloadTextFile } from '../utils/download';
+
+const previewValue = (value: JsonValue | undefined): string => {
+  if (value === undefined) return '—';
+  const json = JSON.stringify(value);
+  return json.length > 60 ? `${json.slice(0, 57)}...` : json;
+};
+
+export const ChangeLogPanel: React.FC<{ changes: ChangeLogEntry[]; onClose: () => void }> = ({ changes, onClose }) => {
+  const [groupMode, setGroupMode] = useState<'rule' | 'element'>('rule');
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+
+  const groups = useMemo(
+    () => (groupMode === 'rule' ? groupChangesByRule(changes) : groupChangesByElement(changes)),
+    [changes, groupMode]
+  );
+  const idMap = useMemo(() => getIdMap(changes), [changes]);
+  const hasIdMap = Object.keys(idMap).length > 0;
+
+  return (
+    <div className="flex flex-col max-h-72 bg-[#161b22] border border-[#30363d] rounded-md text-xs shadow-sm">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-[#30363d]">
+        <div className="flex items-center gap-2 text-[10px] text-[#8b949e] uppercase font-bold tracking-widest">
+          <ListTree className="w-3 h-3" />
+          <span>{changes.length} Changes</span>
+        </div>
+        <div className="flex items-center gap-3">
+          <div className="flex rounded border border-[#30363d] overflow-hidden">
+            {(['rule', 'element'] as const).map(mode => (
+              <button
+                key={mode}
+                onClick={() => setGroupMode(mode)}
+                className={`px-2 py-0.5 ${groupMode === mode ? 'bg-[#1f6feb] text-white' : 'bg-[#21262d] text-[#8b949e] hover:text-[#c9d1d9]'}`}
+              >
+                By {mode === 'rule' ? 'Rule' : 'Element'}
+              </button>
+            ))}
+          </div>
+          {hasIdMap && <button onClick={() => downloadTextFile(JSON.stringify(idMap, null, 2), 'elementor-id-map.json')} className="text-[#8b949e] hover:text-[#58a6ff]">ID Map</button>}
+          <button onClick={() => downloadTextFile(changeLogToJSON(changes), 'elementor-changes.json')} disabled={!changes.length} className="text-[#8b949e] hover:text-[#58a6ff]">JSON</button>
+          <button onClick={() => downloadTextFile(changeLogToMarkdown(changes), 'elementor-changes.md', 'text/markdown')} disabled={!changes.length} className="flex items-center gap-1 text-[#8b949e] hover:text-[#58a6ff]"><FileText className="w-3 h-3" />Markdown</button>
+          <button onClick={onClose} className="text-[#8b949e] hover:text-[#f0f6fc]"><X className="w-4 h-4" /></button>
+        </div>
+      </div>
+      <div className="overflow-y-auto">
+        {groups.length === 0 && <div className="px-3 py-4 text-center text-[#484f58]">No changes</div>}
+        {groups.map(group => {
+          const isOpen = expanded[group.key];
+          return (
+            <div key={group.key} className="border-b border-[#21262d] last:border-b-0">
+              <button
+                onClick={() => setExpanded(prev => ({ ...prev, [group.key]: !prev[group.key] }))}
+                className="w-full flex items-center justify-between gap-2 px-3 py-1.5 hover:bg-[#21262d] text-left"
+              >
+                <span className="flex items-center gap-1.5 text-[#c9d1d9]">
+                  {isOpen ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                  {group.label}
+                </span>
+                <span className="text-[#8b949e]">{group.entries.length}</span>
+              </button>
+              {isOpen && (
+                <div className="pb-1">
+                  {group.entries.map((entry, i) => (
+                    <div key={i} className="grid grid-cols-[1fr_auto] gap-x-3 px-7 py-1 font-mono text-[10px] hover:bg-[#0d1117]">
+                      <span className="text-[#58a6ff] truncate" title={entry.path}>{entry.path}</span>
+                      <span className="text-[#8b949e] truncate">
+                        {groupMode === 'rule' ? (entry.elementTitle ?? entry.elementId ?? '') : entry.rule}
+                      </span>
+                      <span className="col-span-2 truncate">
+                        <span className="text-red-400">{previewValue(entry.oldValue)}</span>
+                        <span className="text-[#484f58]"> → </span>
+                        <span className="text-green-400">{previewValue(entry.newValue)}</span>
+                      </span>
+                      {entry.details?.map((detail, j) => (
+                        <span key={j} className="col-span-2 pl-2 text-[#8b949e] truncate" title={detail}>{detail}</span>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { CustomRule, CustomRuleAction, ElementorElementType } from '../types';
+
+const inputClass = 'w-full bg-[#0d1117] border border-[#30363d] rounded px-2 py-1 text-xs focus:border-[#58a6ff] outline-none';
+const labelClass = 'text-[10px] text-[#8b949e] uppercase font-bold tracking-widest';
+
+const defaultActions: Record<CustomRuleAction['type'], CustomRuleAction> = {
+  remove: { type: 'remove' },
+  set: { type: 'set', value: '' },
+  rename: { type: 'rename', to: '' },
+  replace: { type: 'replace', pattern: '', flags: 'g', replacement: '' }
+};
+
+const createRule = (): CustomRule => ({
+  id: Date.now().toString(36),
+  name: 'New rule',
+  // Off until it has a pattern, so auto-convert doesn't run a half-written rule
+  enabled: false,
+  match: { target: 'key', pattern: '' },
+  action: { type: 'remove' }
+});
+
+const RuleCard = ({
+  rule,
+  onChange,
+  onDelete
+}: {
+  rule: CustomRule;
+  onChange: (rule: CustomRule) => void;
+  onDelete: () => void;
+}) => {
+  const setMatch = (patch: Partial<CustomRule['match']>) => onChange({ ...rule, match: { ...rule.match, ...patch } });
+  const { action } = rule;
+
+  return (
+    <div className={`space-y-2 p-3 rounded-md border border-[#30363d] bg-[#0d1117]/50 ${rule.enabled ? '' : 'opacity-60'}`}>
+      <div className="flex items-center gap-2">
+        <input type="checkbox" checked={rule.enabled} onChange={e => onChange({ ...rule, enabled: e.target.checked })} className="accent-[#238636]" />
+        <input value={rule.name} onChange={e => onChange({ ...rule, name: e.target.value })} className={`${inputClass} font-semibold`} />
+        <button onClick={onDelete} className="text-[#8b949e] hover:text-red-400 transition-colors"><Trash2 className="w-4 h-4" /></button>
+      </div>
+
+      <div className="grid grid-cols-[auto_1fr] gap-2 items-center">
+        <span className={labelClass}>Where</span>
+        <div className="flex gap-2">
+          <select value={rule.match.target} onChange={e => setMatch({ target: e.target.value as 'key' | 'path' })} className={`${inputClass} w-auto`}>
+            <option value="key">Key regex</option>
+            <option value="path">JSONPath</option>
+          </select>
+          <input value={rule.match.pattern} onChange={e => setMatch({ pattern: e.target.value })} placeholder={rule.match.target === 'key' ? '^_css_classes$' : '$..settings.html_tag'} className={`${inputClass} font-mono`} />
+        </div>
+
+        <span className={labelClass}>Value</span>
+        <input value={rule.match.valuePattern ?? ''} onChange={e => setMatch({ valuePattern: e.target.value || undefined })} placeholder="Only when value matches regex (optional)" className={`${inputClass} font-mono`} />
+
+        <span className={labelClass}>On</span>
+        <div className="grid grid-cols-3 gap-2">
+          <select value={rule.match.elType ?? ''} onChange={e => setMatch({ elType: (e.target.value || undefined) as ElementorElementType | undefined })} className={inputClass}>
+            <option value="">Any element</option>
+            <option value="container">Container</option>
+            <option value="section">Section</option>
+            <option value="column">Column</option>
+            <option value="widget">Widget</option>
+          </select>
+          <input value={rule.match.widgetType ?? ''} onChange={e => setMatch({ widgetType: e.target.value || undefined })} placeholder="widgetType" className={inputClass} />
+          <select value={rule.match.containerLevel ?? ''} onChange={e => setMatch({ containerLevel: e.target.value ? Number(e.target.value) : undefined })} className={inputClass}>
+            <option value="">Any level</option>
+            <option value="1">Level 1</option>
+            <option value="2">Level 2</option>
+            <option value="3">Level 3+</option>
+          </select>
+        </div>
+
+        <span className={labelClass}>Do</span>
+        <div className="flex gap-2">
+          <select value={action.type} onChange={e => onChange({ ...rule, action: defaultActions[e.target.value as CustomRuleAction['type']] })} className={`${inputClass} w-auto`}>
+            <option value="remove">Remove</option>
+            <option value="set">Set value</option>
+            <option value="rename">Rename key</option>
+            <option value="replace">Regex replace</option>
+          </select>
+          {action.type === 'set' && <input value={action.value} onChange={e => onChange({ ...rule, action: { ...action, value: e.target.value } })} placeholder='"div" or {"unit":"px"}' className={`${inputClass} font-mono`} />}
+          {action.type === 'rename' && <input value={action.to} onChange={e => onChange({ ...rule, action: { ...action, to: e.target.value } })} placeholder="new_key" className={`${inputClass} font-mono`} />}
+        </div>
+        {action.type === 'replace' && <>
+          <span />
+          <div className="grid grid-cols-[1fr_3rem_1fr] gap-2">
+            <input value={action.pattern} onChange={e => onChange({ ...rule, action: { ...action, pattern: e.target.value } })} placeholder="regex" className={`${inputClass} font-mono`} />
+            <input value={action.flags} onChange={e => onChange({ ...rule, action: { ...action, flags: e.target.value } })} placeholder="g" className={`${inputClass} font-mono text-center`} />
+            <input value={action.replacement} onChange={e => onChange({ ...rule, action: { ...action, replacement: e.target.value } })} placeholder="replacement" className={`${inputClass} font-mono`} />
+          </div>
+        </>}
+      </div>
+    </div>
+  );
+};
+
+export const CustomRulesEditor: React.FC<{ rules: CustomRule[]; onChange: (rules: CustomRule[]) => void }> = ({ rules, onChange }) => (
+  <div className="space-y-3">
+    <div className="flex items-center justify-between">
+      <h3 className="text-xs font-bold text-[#8b949e] uppercase tracking-wider">Custom Rules</h3>
+      <button onClick={() => onChange([...rules, createRule()])} className="flex items-center gap-1 px-2 py-1 text-xs bg-[#21262d] border border-[#30363d] rounded text-[#c9d1d9] hover:bg-[#30363d] transition-colors"><Plus className="w-3 h-3" /><span>Add</span></button>
+    </div>
+    {rules.length === 0 && <p className="text-[10px] text-[#8b949e]">Applied after the built-in rules. A "Set value" rule with a plain key name also adds the key where it is missing.</p>}
+    {rules.map((rule, i) => (
+      <RuleCard
+        key={rule.id}
+        rule={rule}
+        onChange={updated => onChange(rules.map((r, j) => (j === i ? updated : r)))}
+        onDelete={() => onChange(rules.filter((_, j) => j !== i))}
+      />
+    ))}
+  </div>
+);
@@ -1,9 +1,128 @@
-import React from 'react';
-import Editor from '@monaco-editor/react';
-import { EditorProps } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import Editor, { DiffEditor } from '@monaco-editor/react';
+import { DiffEditorProps, EditorProps, LintProblem } from '../types';
+import { prepareJsonDiff } from '../utils/jsonDiff';
+import { JsonRange, findJsonRange, locateJsonPaths } from '../utils/jsonLocation';
+
+const sharedOptions = {
+  minimap: { enabled: false },
+  fontSize: 13,
+  lineNumbers: 'on' as const,
+  scrollBeyondLastLine: false,
+  automaticLayout: true,
+  padding: { top: 16, bottom: 16 },
+  wordWrap: 'on' as const,
+  renderLineHighlight: 'all' as const,
+  cursorBlinking: 'smooth' as const,
+  scrollbar: {
+    vertical: 'visible' as const,
+    horizontal: 'visible' as const,
+    useShadows: false,
+    verticalScrollbarSize: 10,
+    horizontalScrollbarSize: 10
+  }
+};
+
+const MARKER_OWNER = 'elementor-lint';
+
+/**
+ * Monaco range of a located value: its key (or opening character) up to the end of that line.
+ */
+const toEditorRange = (model: any, range: JsonRange) => {
+  const start = model.getPositionAt(range.keyStart ?? range.start);
+  const end = model.getPositionAt(range.end);
+  const endColumn = end.lineNumber === start.lineNumber ? end.column : model.getLineMaxColumn(start.lineNumber);
+  return { startLineNumber: start.lineNumber, startColumn: start.column, endLineNumber: start.lineNumber, endColumn };
+};
+
+/**
+ * Selects the value at a JSONPath (or its closest existing ancestor) and scrolls it into view.
+ */
+export const revealJsonPath = (editor: any, path: string) => {
+  const model = editor?.getModel();
+  if (!model) return;
+  const range = findJsonRange(locateJsonPaths(model.getValue()), path);
+  if (!range) return;
+  const target = toEditorRange(model, range);
+  editor.setSelection(target);
+  editor.revealRangeInCenter(target);
+  editor.focus();
+};
+
+/**
+ * Folds or unfolds the object or array at a JSONPath.
+ */
+export const foldJsonPath = (editor: any, path: string, folded: boolean) => {
+  const model = editor?.getModel();
+  const range = model && locateJsonPaths(model.getValue()).get(path);
+  if (!range) return;
+  const line = model.getPositionAt(range.start).lineNumber;
+  // `selectionLines` are 0-based
+  editor.trigger('outline', folded ? 'editor.fold' : 'editor.unfold', { levels: 1, selectionLines: [line - 1] });
+};
+
+/**
+ * Reports the JSONPaths whose value starts a collapsed folding region, whenever folding changes.
+ * Returns a function that stops watching.
+ */
+export const watchFoldedPaths = (editor: any, onChange: (folded: Set<string>) => void): (() => void) => {
+  let subscription: { dispose: () => void } | undefined;
+  let stopped = false;
+
+  editor?.getContribution('editor.contrib.folding')?.getFoldingModel()?.then((foldingModel: any) => {
+    if (!foldingModel || stopped) return;
+    const report = () => {
+      const model = editor.getModel();
+      const regions = foldingModel.regions;
+      const collapsedLines = new Set<number>();
+      for (let i = 0; i < regions.length; i++) {
+        if (regions.isCollapsed(i)) collapsedLines.add(regions.getStartLineNumber(i));
+      }
+      const folded = new Set<string>();
+      if (model && collapsedLines.size > 0) {
+        for (const [path, range] of locateJsonPaths(model.getValue())) {
+          if (collapsedLines.has(model.getPositionAt(range.start).lineNumber)) folded.add(path);
+        }
+      }
+      onChange(folded);
+    };
+    subscription = foldingModel.onDidChange(report);
+    report();
+  });
+
+  return () => {
+    stopped = true;
+    subscription?.dispose();
+  };
+};
+
+const editorLoading = <div className="flex items-center justify-center h-full text-[#8b949e]">Initializing Editor...</div>;
+
+export const JsonEditor: React.FC<EditorProps> = ({ value, onChange, readOnly, placeholder, language = 'json', problems, onMount }) => {
+  const [instance, setInstance] = useState<{ editor: any; monaco: any } | null>(null);
+
+  useEffect(() => {
+    const model = instance?.editor.getModel();
+    if (!model) return;
+    const { monaco } = instance!;
+    const ranges = problems?.length ? locateJsonPaths(model.getValue()) : new Map<string, JsonRange>();
+    const markers = (problems ?? []).flatMap((problem: LintProblem) => {
+      const range = findJsonRange(ranges, problem.path);
+      if (!range) return [];
+      return [{
+        ...toEditorRange(model, range),
+        severity: problem.severity === 'error' ? monaco.MarkerSeverity.Error : monaco.MarkerSeverity.Warning,
+        message: problem.message,
+        source: problem.path,
+        code: problem.code
+      }];
+    });
+    monaco.editor.setModelMarkers(model, MARKER_OWNER, markers);
+  }, [instance, problems, value]);
 
-export const JsonEditor: React.FC<EditorProps> = ({ value, onChange, readOnly, placeholder, onMount }) => {
   const handleOnMount = (editor: any, monaco: any) => {
+    setInstance({ editor, monaco });
+
     // Local state to track folding toggle within this instance
     let isFolded = false;
 
@@ -37,32 +156,17 @@ export const JsonEditor: React.FC<EditorProps> = ({ value, onChange, readOnly, p
     <div className="relative w-full h-full font-mono text-sm overflow-hidden bg-[#0d1117] rounded-md border border-[#30363d] focus-within:border-[#58a6ff] transition-colors">
       <Editor
         height="100%"
-        defaultLanguage="json"
+        language={language}
         theme="vs-dark"
         value={value}
         onChange={(val) => onChange?.(val || '')}
         onMount={handleOnMount}
         options={{
+          ...sharedOptions,
           readOnly,
-          minimap: { enabled: false },
-          fontSize: 13,
-          lineNumbers: 'on',
-          scrollBeyondLastLine: false,
-          automaticLayout: true,
-          padding: { top: 16, bottom: 16 },
-          wordWrap: 'on',
-          formatOnPaste: true,
-          renderLineHighlight: 'all',
-          cursorBlinking: 'smooth',
-          scrollbar: {
-            vertical: 'visible',
-            horizontal: 'visible',
-            useShadows: false,
-            verticalScrollbarSize: 10,
-            horizontalScrollbarSize: 10
-          }
+          formatOnPaste: true
         }}
-        loading={<div className="flex items-center justify-center h-full text-[#8b949e]">Initializing Editor...</div>}
+        loading={editorLoading}
       />
       {!value && placeholder && (
         <div className="absolute top-4 left-[54px] pointer-events-none text-[#484f58] select-none">
@@ -71,4 +175,42 @@ export const JsonEditor: React.FC<EditorProps> = ({ value, onChange, readOnly, p
       )}
     </div>
   );
-};
\ No newline at end of file
+};
+
+/**
+ * Read-only side-by-side diff of two JSON documents. Both sides are pretty-printed
+ * with aligned key order first so formatting differences don't show up as changes.
+ */
+export const JsonDiffEditor: React.FC<DiffEditorProps> = ({ original, modified, hideUnchangedRegions, onMount }) => {
+  const editorRef = useRef<any>(null);
+  const prepared = useMemo(() => prepareJsonDiff(original, modified), [original, modified]);
+
+  useEffect(() => {
+    editorRef.current?.updateOptions({ hideUnchangedRegions: { enabled: !!hideUnchangedRegions } });
+  }, [hideUnchangedRegions]);
+
+  return (
+    <div className="relative w-full h-full font-mono text-sm overflow-hidden bg-[#0d1117] rounded-md border border-[#30363d] transition-colors">
+      <DiffEditor
+        height="100%"
+        language="json"
+        theme="vs-dark"
+        original={prepared.original}
+        modified={prepared.modified}
+        onMount={(editor, monaco) => {
+          editorRef.current = editor;
+          onMount?.(editor, monaco);
+        }}
+        options={{
+          ...sharedOptions,
+          readOnly: true,
+          originalEditable: false,
+          renderSideBySide: true,
+          ignoreTrimWhitespace: true,
+          hideUnchangedRegions: { enabled: !!hideUnchangedRegions }
+        }}
+        loading={editorLoading}
+      />
+    </div>
+  );
+};
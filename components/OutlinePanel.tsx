@@ -0,0 +1,158 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Box,
+  ChevronDown,
+  ChevronRight,
+  Code,
+  Columns3,
+  FolderTree,
+  Heading,
+  Image,
+  List,
+  Minus,
+  MousePointerClick,
+  MoveVertical,
+  Puzzle,
+  Rows3,
+  Star,
+  Type,
+  Video,
+  X
+} from 'lucide-react';
+import { ElementorElementType } from '../types';
+import { OutlineNode, filterOutline, outlineWidgetTypes } from '../utils/outline';
+import { foldJsonPath, revealJsonPath, watchFoldedPaths } from './JsonEditor';
+
+export type OutlineSource = 'input' | 'output';
+
+const elementIcons: Record<ElementorElementType, any> = {
+  container: Box,
+  section: Rows3,
+  column: Columns3,
+  widget: Puzzle
+};
+
+const widgetIcons: Record<string, any> = {
+  heading: Heading,
+  'text-editor': Type,
+  image: Image,
+  button: MousePointerClick,
+  video: Video,
+  icon: Star,
+  'icon-box': Star,
+  'icon-list': List,
+  divider: Minus,
+  spacer: MoveVertical,
+  html: Code
+};
+
+const nodeLabel = (node: OutlineNode): string =>
+  node.title ?? (node.elType === 'widget' ? node.widgetType ?? 'widget' : node.elType.charAt(0).toUpperCase() + node.elType.slice(1));
+
+const OutlineItem = ({
+  node,
+  depth,
+  folded,
+  onSelect,
+  onToggle
+}: {
+  node: OutlineNode;
+  depth: number;
+  folded: Set<string>;
+  onSelect: (node: OutlineNode) => void;
+  onToggle: (node: OutlineNode, folded: boolean) => void;
+}) => {
+  const Icon = (node.widgetType && widgetIcons[node.widgetType]) || elementIcons[node.elType] || Puzzle;
+  const isFolded = folded.has(node.path);
+  const hasChildren = node.children.length > 0;
+
+  return (
+    <div>
+      <div className="flex items-center gap-1 pr-2 py-0.5 hover:bg-[#21262d] group" style={{ paddingLeft: depth * 12 + 4 }}>
+        <button onClick={() => onToggle(node, !isFolded)} disabled={!hasChildren} className={`p-0.5 text-[#8b949e] hover:text-[#f0f6fc] ${hasChildren ? '' : 'invisible'}`}>
+          {isFolded ? <ChevronRight className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+        </button>
+        <button onClick={() => onSelect(node)} title={node.path} className="flex-1 min-w-0 flex items-center gap-1.5 text-left">
+          <Icon className={`w-3.5 h-3.5 shrink-0 ${node.elType === 'widget' ? 'text-[#58a6ff]' : 'text-[#8b949e]'}`} />
+          <span className="truncate text-[#c9d1d9] group-hover:text-[#f0f6fc]">{nodeLabel(node)}</span>
+          {node.hierarchy && <span className="ml-auto shrink-0 font-mono text-[10px] text-[#484f58]">{node.hierarchy}</span>}
+        </button>
+      </div>
+      {hasChildren && !isFolded && node.children.map(child => (
+        <OutlineItem key={child.path} node={child} depth={depth + 1} folded={folded} onSelect={onSelect} onToggle={onToggle} />
+      ))}
+    </div>
+  );
+};
+
+/**
+ * Element tree of the input or output. Selecting a node reveals it in the editor,
+ * and collapsing a node folds it there (and the other way round).
+ */
+export const OutlinePanel: React.FC<{
+  outlines: Record<OutlineSource, OutlineNode[]>;
+  /** Editor currently showing a side, if any */
+  getEditor: (source: OutlineSource) => any;
+  onClose: () => void;
+}> = ({ outlines, getEditor, onClose }) => {
+  const [source, setSource] = useState<OutlineSource>('input');
+  const [widgetType, setWidgetType] = useState('');
+  const [folded, setFolded] = useState<Set<string>>(new Set());
+
+  const nodes = outlines[source];
+  const widgetTypes = useMemo(() => outlineWidgetTypes(nodes), [nodes]);
+  const visible = useMemo(() => (widgetType ? filterOutline(nodes, widgetType) : nodes), [nodes, widgetType]);
+
+  // The outline is rebuilt whenever the text changes, so folding is re-read along with it
+  useEffect(() => {
+    setFolded(new Set());
+    return watchFoldedPaths(getEditor(source), setFolded);
+  }, [getEditor, source, nodes]);
+
+  const handleToggle = (node: OutlineNode, fold: boolean) => {
+    setFolded(prev => {
+      const next = new Set(prev);
+      if (fold) next.add(node.path);
+      else next.delete(node.path);
+      return next;
+    });
+    foldJsonPath(getEditor(source), node.path, fold);
+  };
+
+  return (
+    <div className="flex flex-col h-full min-h-0 bg-[#161b22] border border-[#30363d] rounded-md text-xs shadow-sm">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-[#30363d]">
+        <div className="flex items-center gap-2 text-[10px] text-[#8b949e] uppercase font-bold tracking-widest">
+          <FolderTree className="w-3 h-3" />
+          <span>Outline</span>
+        </div>
+        <div className="flex items-center gap-3">
+          <div className="flex rounded border border-[#30363d] overflow-hidden">
+            {(['input', 'output'] as const).map(side => (
+              <button
+                key={side}
+                onClick={() => setSource(side)}
+                className={`px-2 py-0.5 ${source === side ? 'bg-[#1f6feb] text-white' : 'bg-[#21262d] text-[#8b949e] hover:text-[#c9d1d9]'}`}
+              >
+                {side === 'input' ? 'Input' : 'Output'}
+              </button>
+            ))}
+          </div>
+          <button onClick={onClose} className="text-[#8b949e] hover:text-[#f0f6fc]"><X className="w-4 h-4" /></button>
+        </div>
+      </div>
+      <div className="px-3 py-2 border-b border-[#30363d]">
+        <select value={widgetType} onChange={e => setWidgetType(e.target.value)} className="w-full bg-[#0d1117] border border-[#30363d] rounded px-1.5 py-1 text-[#c9d1d9] focus:outline-none focus:border-[#1f6feb]">
+          <option value="">All elements</option>
+          {widgetTypes.map(type => <option key={type} value={type}>{type}</option>)}
+        </select>
+      </div>
+      <div className="flex-1 min-h-0 overflow-y-auto py-1">
+        {visible.length === 0 && <div className="px-3 py-4 text-center text-[#484f58]">No elements</div>}
+        {visible.map(node => (
+          <OutlineItem key={node.path} node={node} depth={0} folded={folded} onSelect={n => revealJsonPath(getEditor(source), n.path)} onToggle={handleToggle} />
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import React from 'react';
+import { AlertCircle, AlertTriangle, X } from 'lucide-react';
+import { LintProblem } from '../types';
+
+export type ProblemSource = 'input' | 'output';
+
+export const ProblemsPanel: React.FC<{
+  problems: Record<ProblemSource, LintProblem[]>;
+  onSelect: (source: ProblemSource, problem: LintProblem) => void;
+  onClose: () => void;
+}> = ({ problems, onSelect, onClose }) => {
+  const entries = (['input', 'output'] as const).flatMap(source => problems[source].map(problem => ({ source, problem })));
+  const errors = entries.filter(({ problem }) => problem.severity === 'error').length;
+
+  return (
+    <div className="flex flex-col max-h-72 bg-[#161b22] border border-[#30363d] rounded-md text-xs shadow-sm">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-[#30363d]">
+        <div className="flex items-center gap-2 text-[10px] text-[#8b949e] uppercase font-bold tracking-widest">
+          <AlertTriangle className="w-3 h-3" />
+          <span>{errors} Errors, {entries.length - errors} Warnings</span>
+        </div>
+        <button onClick={onClose} className="text-[#8b949e] hover:text-[#f0f6fc]"><X className="w-4 h-4" /></button>
+      </div>
+      <div className="overflow-y-auto">
+        {entries.length === 0 && <div className="px-3 py-4 text-center text-[#484f58]">No problems</div>}
+        {entries.map(({ source, problem }, i) => (
+          <button
+            key={i}
+            onClick={() => onSelect(source, problem)}
+            className="w-full grid grid-cols-[auto_1fr_auto] items-start gap-x-2 px-3 py-1.5 border-b border-[#21262d] last:border-b-0 hover:bg-[#21262d] text-left"
+          >
+            {problem.severity === 'error'
+              ? <AlertCircle className="w-3.5 h-3.5 mt-0.5 text-red-400" />
+              : <AlertTriangle className="w-3.5 h-3.5 mt-0.5 text-yellow-400" />}
+            <span className="flex flex-col min-w-0">
+              <span className="text-[#c9d1d9]">{problem.message}</span>
+              <span className="font-mono text-[10px] text-[#58a6ff] truncate" title={problem.path}>{problem.path}</span>
+            </span>
+            <span className="text-[10px] uppercase tracking-wider text-[#8b949e]">{source}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown, Copy, Download, Pencil, Trash2, Upload, UserCog } from 'lucide-react';
+import { OptionProfileStore } from '../types';
+import { createProfile, exportProfiles, getActiveProfile, importProfiles, uniqueProfileName } from '../utils/profiles';
+import { downloadTextFile } from '../utils/download';
+
+const menuItemClass = 'w-full flex items-center gap-2 px-3 py-1.5 text-left text-[#c9d1d9] hover:bg-[#30363d] disabled:opacity-40 disabled:hover:bg-transparent';
+
+/**
+ * Header control for switching option profiles, with duplicate, rename, delete, export and import.
+ */
+export const ProfileSwitcher: React.FC<{
+  store: OptionProfileStore;
+  onChange: (store: OptionProfileStore) => void;
+  onMessage: (success: boolean, message: string) => void;
+}> = ({ store, onChange, onMessage }) => {
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const active = getActiveProfile(store);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const handleDuplicate = () => {
+    const name = window.prompt('Name of the new profile', uniqueProfileName(store.profiles, active.name));
+    if (!name?.trim()) return;
+    const profile = createProfile(uniqueProfileName(store.profiles, name.trim()), active.options);
+    onChange({ ...store, activeId: profile.id, profiles: [...store.profiles, profile] });
+    setOpen(false);
+  };
+
+  const handleRename = () => {
+    const name = window.prompt('Rename profile', active.name);
+    if (!name?.trim() || name.trim() === active.name) return;
+    const others = store.profiles.filter(profile => profile.id !== active.id);
+    const renamed = uniqueProfileName(others, name.trim());
+    onChange({ ...store, profiles: store.profiles.map(profile => (profile.id === active.id ? { ...profile, name: renamed } : profile)) });
+    setOpen(false);
+  };
+
+  const handleDelete = () => {
+    if (store.profiles.length < 2 || !window.confirm(`Delete profile "${active.name}"?`)) return;
+    const profiles = store.profiles.filter(profile => profile.id !== active.id);
+    onChange({ ...store, activeId: profiles[0].id, profiles });
+    setOpen(false);
+  };
+
+  const handleExport = () => {
+    downloadTextFile(exportProfiles(store.profiles), 'elementor-compressor-profiles.json');
+    setOpen(false);
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setOpen(false);
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        const profiles = [...store.profiles];
+        const imported = importProfiles(event.target?.result as string, file.name.replace(/\.json$/i, ''));
+        for (const profile of imported) profiles.push({ ...profile, name: uniqueProfileName(profiles, profile.name) });
+        onChange({ ...store, activeId: imported[0].id, profiles });
+        onMessage(true, `Imported ${imported.length} profile${imported.length === 1 ? '' : 's'}`);
+      } catch (err: any) {
+        onMessage(false, err.message);
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  return (
+    <div ref={menuRef} className="relative flex items-center rounded-md border border-[#30363d] bg-[#21262d] text-sm text-[#c9d1d9] shadow-sm">
+      <UserCog className="w-4 h-4 ml-2.5 text-[#8b949e]" />
+      <select
+        value={store.activeId}
+        onChange={e => onChange({ ...store, activeId: e.target.value })}
+        title="Options profile"
+        className="max-w-[10rem] bg-transparent pl-2 pr-1 py-1.5 focus:outline-none cursor-pointer"
+      >
+        {store.profiles.map(profile => <option key={profile.id} value={profile.id} className="bg-[#161b22]">{profile.name}</option>)}
+      </select>
+      <button onClick={() => setOpen(v => !v)} title="Manage profiles" className="px-1.5 self-stretch border-l border-[#30363d] hover:bg-[#30363d] rounded-r-md">
+        <ChevronDown className="w-4 h-4" />
+      </button>
+      {open && (
+        <div className="absolute right-0 top-full mt-1 w-48 py-1 bg-[#161b22] border border-[#30363d] rounded-md shadow-xl text-xs z-30">
+          <button onClick={handleDuplicate} className={menuItemClass}><Copy className="w-3.5 h-3.5" />Save as new profile</button>
+          <button onClick={handleRename} className={menuItemClass}><Pencil className="w-3.5 h-3.5" />Rename</button>
+          <button onClick={handleDelete} disabled={store.profiles.length < 2} className={menuItemClass}><Trash2 className="w-3.5 h-3.5" />Delete</button>
+          <div className="my-1 h-[1px] bg-[#30363d]" />
+          <button onClick={handleExport} className={menuItemClass}><Download className="w-3.5 h-3.5" />Export profiles</button>
+          <label className={`${menuItemClass} cursor-pointer`}><Upload className="w-3.5 h-3.5" />Import profiles<input type="file" className="hidden" accept=".json" onChange={handleImport} /></label>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import React from 'react';
+import { Code, EyeOff, Link2, MousePointerClick, ShieldAlert, Tag, X } from 'lucide-react';
+import { SecurityFinding, SecurityFindingKind } from '../types';
+import { securityFindingLabels } from '../utils/sanitize';
+
+const kindIcons: Record<SecurityFindingKind, any> = {
+  script: Code,
+  'event-handler': MousePointerClick,
+  'javascript-url': Link2,
+  'tracking-pixel': EyeOff,
+  'custom-attribute': Tag
+};
+
+/**
+ * What the `sanitize` rule neutralized. Selecting a finding reveals its setting in the input.
+ */
+export const SecurityPanel: React.FC<{
+  findings: SecurityFinding[];
+  onSelect: (finding: SecurityFinding) => void;
+  onClose: () => void;
+}> = ({ findings, onSelect, onClose }) => (
+  <div className="flex flex-col max-h-72 bg-[#161b22] border border-[#30363d] rounded-md text-xs shadow-sm">
+    <div className="flex items-center justify-between px-3 py-2 border-b border-[#30363d]">
+      <div className="flex items-center gap-2 text-[10px] text-[#8b949e] uppercase font-bold tracking-widest">
+        <ShieldAlert className="w-3 h-3" />
+        <span>{findings.length} Neutralized</span>
+      </div>
+      <button onClick={onClose} className="text-[#8b949e] hover:text-[#f0f6fc]"><X className="w-4 h-4" /></button>
+    </div>
+    <div className="overflow-y-auto">
+      {findings.length === 0 && <div className="px-3 py-4 text-center text-[#484f58]">Nothing dangerous found</div>}
+      {findings.map((finding, i) => {
+        const Icon = kindIcons[finding.kind];
+        return (
+          <button
+            key={i}
+            onClick={() => onSelect(finding)}
+            className="w-full grid grid-cols-[auto_1fr_auto] items-start gap-x-2 px-3 py-1.5 border-b border-[#21262d] last:border-b-0 hover:bg-[#21262d] text-left"
+          >
+            <Icon className="w-3.5 h-3.5 mt-0.5 text-red-400" />
+            <span className="flex flex-col min-w-0">
+              <span className="font-mono text-[10px] text-[#c9d1d9] truncate" title={finding.snippet}>{finding.snippet}</span>
+              <span className="font-mono text-[10px] text-[#58a6ff] truncate" title={finding.path}>{finding.path}</span>
+            </span>
+            <span className="flex flex-col items-end text-[10px]">
+              <span className="uppercase tracking-wider text-[#8b949e]">{securityFindingLabels[finding.kind]}</span>
+              {finding.elementId && <span className="text-[#484f58]">{finding.elementTitle ?? `#${finding.elementId}`}</span>}
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  </div>
+);
@@ -0,0 +1,109 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, BarChart3, X } from 'lucide-react';
+import { SizeGroup, SizeReport, SizeReportRow } from '../types';
+import { formatByteSize } from '../utils/compressor';
+
+const groupLabels: Record<SizeGroup, string> = {
+  section: 'Sections',
+  widgetType: 'Widgets',
+  keyFamily: 'Key Families'
+};
+
+type SortColumn = 'label' | 'before' | 'after' | 'saved' | 'gzipBefore' | 'gzipAfter';
+
+const columns: { column: SortColumn; title: string }[] = [
+  { column: 'label', title: 'Name' },
+  { column: 'before', title: 'Before' },
+  { column: 'after', title: 'After' },
+  { column: 'saved', title: 'Saved' },
+  { column: 'gzipBefore', title: 'Gzip Before' },
+  { column: 'gzipAfter', title: 'Gzip After' }
+];
+
+const sortValue = (row: SizeReportRow, column: SortColumn): number | string => {
+  switch (column) {
+    case 'label': return row.label.toLowerCase();
+    case 'before': return row.before.bytes;
+    case 'after': return row.after.bytes;
+    case 'saved': return row.before.bytes - row.after.bytes;
+    case 'gzipBefore': return row.before.gzipBytes;
+    case 'gzipAfter': return row.after.gzipBytes;
+  }
+};
+
+export const SizeReportPanel: React.FC<{ report: SizeReport; onClose: () => void }> = ({ report, onClose }) => {
+  const [group, setGroup] = useState<SizeGroup>('section');
+  const [sort, setSort] = useState<{ column: SortColumn; descending: boolean }>({ column: 'before', descending: true });
+
+  const rows = useMemo(() => {
+    const sorted = report.rows.filter(row => row.group === group).sort((a, b) => {
+      const x = sortValue(a, sort.column);
+      const y = sortValue(b, sort.column);
+      return x < y ? -1 : x > y ? 1 : 0;
+    });
+    return sort.descending ? sorted.reverse() : sorted;
+  }, [report, group, sort]);
+
+  const handleSort = (column: SortColumn) =>
+    setSort(prev => ({ column, descending: prev.column === column ? !prev.descending : column !== 'label' }));
+
+  const { before, after } = report.total;
+
+  return (
+    <div className="flex flex-col max-h-72 bg-[#161b22] border border-[#30363d] rounded-md text-xs shadow-sm">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-[#30363d]">
+        <div className="flex items-center gap-2 text-[10px] text-[#8b949e] uppercase font-bold tracking-widest">
+          <BarChart3 className="w-3 h-3" />
+          <span title="Element tree only, minified">
+            {formatByteSize(before.bytes)} → {formatByteSize(after.bytes)} · gzip ~{formatByteSize(before.gzipBytes)} → ~{formatByteSize(after.gzipBytes)}
+          </span>
+        </div>
+        <div className="flex items-center gap-3">
+          <div className="flex rounded border border-[#30363d] overflow-hidden">
+            {(Object.keys(groupLabels) as SizeGroup[]).map(key => (
+              <button
+                key={key}
+                onClick={() => setGroup(key)}
+                className={`px-2 py-0.5 ${group === key ? 'bg-[#1f6feb] text-white' : 'bg-[#21262d] text-[#8b949e] hover:text-[#c9d1d9]'}`}
+              >
+                {groupLabels[key]}
+              </button>
+            ))}
+          </div>
+          <button onClick={onClose} className="text-[#8b949e] hover:text-[#f0f6fc]"><X className="w-4 h-4" /></button>
+        </div>
+      </div>
+      <div className="overflow-y-auto">
+        <table className="w-full text-left">
+          <thead className="sticky top-0 bg-[#161b22] text-[10px] uppercase tracking-wider text-[#8b949e]">
+            <tr>
+              {columns.map(({ column, title }) => (
+                <th key={column} className={`px-3 py-1.5 font-bold ${column === 'label' ? '' : 'text-right'}`}>
+                  <button onClick={() => handleSort(column)} className={`inline-flex items-center gap-1 hover:text-[#58a6ff] ${sort.column === column ? 'text-[#58a6ff]' : ''}`}>
+                    {title}
+                    {sort.column === column && (sort.descending ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />)}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="font-mono text-[10px]">
+            {rows.map(row => {
+              const saved = row.before.bytes - row.after.bytes;
+              return (
+                <tr key={row.key} className="border-t border-[#21262d] hover:bg-[#0d1117]">
+                  <td className="px-3 py-1 font-sans text-xs text-[#c9d1d9] truncate max-w-[12rem]" title={row.label}>{row.label}</td>
+                  <td className="px-3 py-1 text-right">{formatByteSize(row.before.bytes)}</td>
+                  <td className="px-3 py-1 text-right text-green-400">{formatByteSize(row.after.bytes)}</td>
+                  <td className={`px-3 py-1 text-right ${saved > 0 ? 'text-[#58a6ff]' : saved < 0 ? 'text-red-400' : 'text-[#484f58]'}`}>{saved < 0 ? '+' : ''}{formatByteSize(Math.abs(saved))}</td>
+                  <td className="px-3 py-1 text-right text-[#8b949e]">~{formatByteSize(row.before.gzipBytes)}</td>
+                  <td className="px-3 py-1 text-right text-[#8b949e]">~{formatByteSize(row.after.gzipBytes)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
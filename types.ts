@@ -5,34 +5,520 @@ export interface PaddingValues {
   left: string;
 }
 
+/** Elementor breakpoints, widest first */
+export type Breakpoint = 'widescreen' | 'desktop' | 'laptop' | 'tablet_extra' | 'tablet' | 'mobile_extra' | 'mobile';
+
+/** Padding per breakpoint; a missing additional breakpoint uses the device it inherits from */
 export interface DevicePadding {
   desktop: PaddingValues;
   tablet: PaddingValues;
   mobile: PaddingValues;
+  widescreen?: PaddingValues;
+  laptop?: PaddingValues;
+  tablet_extra?: PaddingValues;
+  mobile_extra?: PaddingValues;
 }
 
+/** Target writing direction: leave as is, mirror LTR → RTL, or mirror RTL → LTR */
+export type DirectionMode = 'keep' | 'rtl' | 'ltr';
+
+/** What happens to `page_settings` of a template export: untouched, emptied values dropped, or cleared */
+export type PageSettingsPolicy = 'keep' | 'clean' | 'remove';
+
+/** Envelope of the result; `auto` keeps the one the input came in */
+export type OutputFormat = 'auto' | 'elements' | 'clipboard' | 'template';
+
+/** How `_elementor_data` input was encoded: plain JSON, JSON inside a JSON string, or with slashes added */
+export type InputEncoding = 'json' | 'string' | 'slashed';
+
+/** Serialization of the result: JSON, a postmeta string literal, or a `wp post meta update` command */
+export type OutputEncoding = 'json' | 'postmeta' | 'wp-cli';
+
 export interface CompressorOptions {
-  rtlize: boolean;
-  removeMotionFX: boolean;
+  /** Direction conversion; the `direction` rules only run when this is not `keep` */
+  direction: DirectionMode;
+  /** Breakpoints active on the target site; desktop, tablet and mobile are always included */
+  breakpoints: Breakpoint[];
+  /** Page settings are never touched by the element rules, only by this policy */
+  pageSettings: PageSettingsPolicy;
+  /** Envelope the app and CLI wrap the cleaned elements in */
+  outputFormat: OutputFormat;
+  outputEncoding: OutputEncoding;
+  /** Post the `wp-cli` output writes to; empty leaves a `$POST_ID` variable in the command */
+  postId: string;
+  /** On/off state per rule; rules missing here use their `defaultEnabled` */
+  rules: Partial<Record<CompressorRuleId, boolean>>;
+  /** User-defined rules, applied after the built-in rules */
+  customRules: CustomRule[];
+  /** What the `normalize-text` rule fixes in text widget strings */
+  textNormalization: TextNormalizationOptions;
+  /** Markup the `clean-html` rule keeps in text-editor HTML */
+  htmlCleaning: HtmlCleaningOptions;
+  /** Fail the conversion when the `sanitize` rule finds anything, instead of neutralizing it */
+  strictSanitize: boolean;
   autoFormatOnPaste: boolean;
   autoConvertOnPaste: boolean;
-  autoRename: boolean;
-  removeMargins: boolean;
-  removeLevel2Padding: boolean;
-  removeLevel3Padding: boolean;
-  applyMotherPadding: boolean;
   motherPadding: DevicePadding;
-  applyLevel2Padding: boolean;
   level2Padding: DevicePadding;
-  applyLevel3Padding: boolean;
   level3Padding: DevicePadding;
 }
 
+export type PaddingOptionKey = 'motherPadding' | 'level2Padding' | 'level3Padding';
+
+/** Digits text is converted to; `keep` leaves all digits alone */
+export type DigitStyle = 'keep' | 'persian' | 'arabic' | 'latin';
+
+export interface TextNormalizationOptions {
+  /** Arabic ي / ى / ك to Persian ی / ک */
+  characters: boolean;
+  digits: DigitStyle;
+  /** Zero-width non-joiners: duplicates and stray ones removed, missing ones after می / before ها added */
+  zwnj: boolean;
+}
+
+export interface HtmlCleaningOptions {
+  /** Tags kept in the HTML; other tags are unwrapped and their text kept */
+  allowedTags: string[];
+  /** Attributes kept on allowed tags; `text-align` survives in `style` even when `style` isn't listed */
+  allowedAttributes: string[];
+}
+
+/** Kinds of dangerous content the `sanitize` rule neutralizes */
+export type SecurityFindingKind = 'script' | 'event-handler' | 'javascript-url' | 'tracking-pixel' | 'custom-attribute';
+
+export interface SecurityFinding {
+  kind: SecurityFindingKind;
+  /** JSONPath of the setting it was found in */
+  path: string;
+  elementId?: string;
+  elementTitle?: string;
+  /** The offending markup or attribute, shortened */
+  snippet: string;
+}
+
+/** Replacements made by the `normalize-text` rule, by kind */
+export interface TextNormalizationCounts {
+  characters: number;
+  digits: number;
+  zwnj: number;
+}
+
+/** Named set of options, e.g. "RTL client site" */
+export interface OptionProfile {
+  id: string;
+  name: string;
+  options: CompressorOptions;
+}
+
+/** Saved profiles and the one currently in use */
+export interface OptionProfileStore {
+  version: 1;
+  activeId: string;
+  profiles: OptionProfile[];
+}
+
 export interface CompressorStats {
   originalSize: number;
   compressedSize: number;
   reductionPercentage: number;
   removedKeys: number;
+  /** Settings dropped because they equal the Elementor default, and the bytes that saved */
+  removedDefaults: number;
+  removedDefaultsBytes: number;
+  normalizedText: TextNormalizationCounts;
+  /** Text-editor fields rewritten by the `clean-html` rule, and the bytes that saved */
+  cleanedHtml: number;
+  cleanedHtmlBytes: number;
+}
+
+/** Ids of the built-in rules in the rule registry. */
+export type CompressorRuleId =
+  | 'regenerate-ids'
+  | 'convert-legacy-layout'
+  | 'remove-motion-fx'
+  | 'blank-element-width'
+  | 'custom-width-flex-align'
+  | 'auto-rename'
+  | 'remove-margins'
+  | 'container-layout'
+  | 'remove-level2-padding'
+  | 'remove-level3-padding'
+  | 'apply-mother-padding'
+  | 'apply-level2-padding'
+  | 'apply-level3-padding'
+  | 'mirror-layout'
+  | 'rtl-mirror-spacing'
+  | 'rtl-mirror-offsets'
+  | 'rtl-mirror-alignment'
+  | 'rtl-mirror-effects'
+  | 'rtl-mirror-css'
+  | 'clean-html'
+  | 'sanitize'
+  | 'normalize-text'
+  | 'minify-custom-css'
+  | 'remove-redundant-objects'
+  | 'remove-default-values'
+  | 'is-inner'
+  | 'remove-empty-values'
+  | 'dedupe-responsive';
+
+export type CompressorRuleCategory = 'cleanup' | 'layout' | 'direction' | 'text' | 'security' | 'output';
+
+/** The element a rule is currently working inside of. */
+export interface ElementInfo {
+  id?: string;
+  /** `_title` as found in the input, before any renaming */
+  title?: string;
+  elType: ElementorElementType;
+  widgetType?: string;
+  /** Container depth (1: Section, 2: Container, 3+: Inner); for widgets, the depth of their container */
+  level: number;
+  /** Container hierarchy path, e.g. "1-2-1" */
+  path: string;
+  /** Set on containers converted from a legacy section or column */
+  legacyType?: 'section' | 'column';
+}
+
+/** Limits which nodes a rule's hooks are called for. Omitted fields match everything. */
+export interface RuleScope {
+  elType?: ElementorElementType[];
+  widgetType?: string[];
+  /** Container levels; 3 also matches deeper inner containers */
+  containerLevel?: number[];
+  /** Keys the key hooks run for */
+  settingsKey?: (string | RegExp)[];
+}
+
+export interface RuleContext {
+  options: CompressorOptions;
+  isEnabled: (id: CompressorRuleId) => boolean;
+  /** Closest enclosing element; undefined for envelope keys such as `page_settings` */
+  element?: ElementInfo;
+}
+
+export interface RuleKeyContext extends RuleContext {
+  /** Object key, or array index for array items */
+  key: string | number;
+  value: JsonValue;
+  parentKey?: string;
+  /** The raw (uncleaned) object or array holding the key */
+  node: JsonObject | JsonValue[];
+  /** Schedules a key to be appended to the cleaned object */
+  addKey: (key: string, value: JsonValue) => void;
+  /** Lists dangerous content found in this value in the result's `findings` */
+  report: (issue: Pick<SecurityFinding, 'kind' | 'snippet'>) => void;
+  /** Adds to one of the rule's named counters, e.g. the text fixes shown in the stats */
+  tally: (counter: string, amount: number) => void;
+  /** Credits the bytes saved by rewriting `oldValue` as `newValue` to the rule's savings */
+  addSavings: (oldValue: JsonValue, newValue: JsonValue) => void;
+}
+
+export type RuleKeyAction =
+  | { remove: true }
+  /** `final` writes the value as-is, skipping recursion and the remaining rules */
+  | { value: JsonValue; final?: boolean; details?: string[] };
+
+export interface RuleTargetContext extends RuleContext {
+  element: ElementInfo;
+  /** The element's cleaned settings (settings hook) or the cleaned element itself (finalize hook) */
+  target: JsonObject;
+  set: (key: string, value: JsonValue) => void;
+  /** Deletes a key that is being rewritten; not counted as a removal */
+  remove: (key: string) => void;
+  /** Deletes a redundant key, counted in `removedCount` and the rule's savings */
+  strip: (key: string) => void;
+}
+
+export interface RuleTransformContext extends RuleContext {
+  /** Logs a change made while rewriting the tree */
+  record: (path: string, element: ElementInfo | undefined, oldValue: JsonValue | undefined, newValue: JsonValue | undefined) => void;
+  /** Marks a new container as the replacement of a legacy element */
+  setLegacyType: (node: JsonObject, type: 'section' | 'column') => void;
+}
+
+export interface CompressorRule {
+  id: CompressorRuleId;
+  label: string;
+  description: string;
+  category: CompressorRuleCategory;
+  defaultEnabled: boolean;
+  /** Rule that must also be enabled for this one to run */
+  requires?: CompressorRuleId;
+  appliesTo?: RuleScope;
+  /** Padding values edited next to this rule's toggle in the settings drawer */
+  paddingKey?: PaddingOptionKey;
+  /** Rewrites the whole input before cleaning starts; must not mutate it */
+  transform?: (root: JsonValue, ctx: RuleTransformContext) => JsonValue;
+  /** Runs for each object key before its value is cleaned */
+  beforeKey?: (ctx: RuleKeyContext) => RuleKeyAction | void;
+  /** Runs for each object key and array item after its value is cleaned */
+  afterKey?: (ctx: RuleKeyContext) => RuleKeyAction | void;
+  /** Runs on an element's cleaned settings */
+  settings?: (ctx: RuleTargetContext) => void;
+  /** Runs on a cleaned element */
+  finalize?: (ctx: RuleTargetContext) => void;
+}
+
+export type CustomRuleAction =
+  | { type: 'remove' }
+  /** `value` is parsed as JSON; text that isn't valid JSON is used as a plain string */
+  | { type: 'set'; value: string }
+  | { type: 'rename'; to: string }
+  | { type: 'replace'; pattern: string; flags: string; replacement: string };
+
+export interface CustomRuleMatch {
+  /** `key` matches setting names with a regular expression, `path` matches a JSONPath */
+  target: 'key' | 'path';
+  pattern: string;
+  /** Optional regular expression the current string value must match */
+  valuePattern?: string;
+  elType?: ElementorElementType;
+  widgetType?: string;
+  /** Container level of the enclosing element; 3 also matches deeper levels */
+  containerLevel?: number;
+}
+
+export interface CustomRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  match: CustomRuleMatch;
+  action: CustomRuleAction;
+}
+
+export interface ChangeLogEntry {
+  /**
+   * Built-in rule id, `page-settings` for the page settings policy, `translation` for imported
+   * translations, or `custom:<id>` for user-defined rules
+   */
+  rule: CompressorRuleId | 'page-settings' | 'translation' | `custom:${string}`;
+  /** Display name for rules outside the registry */
+  ruleLabel?: string;
+  /** JSONPath of the changed value, e.g. `$[0].elements[1].settings.padding` */
+  path: string;
+  elementId?: string;
+  elementTitle?: string;
+  /** Absent when the key was added */
+  oldValue?: JsonValue;
+  /** Absent when the key was removed */
+  newValue?: JsonValue;
+  /** What changed inside the value, e.g. the CSS declarations that were mirrored */
+  details?: string[];
+}
+
+/** Keys removed by one rule and their size in minified JSON */
+export interface RuleSavings {
+  removed: number;
+  bytes: number;
+}
+
+/** Serialized size of part of a document and an estimate of its gzip size, in bytes */
+export interface SizeMeasure {
+  bytes: number;
+  gzipBytes: number;
+}
+
+/** Top-level elements, widget types, or settings key families such as typography and background */
+export type SizeGroup = 'section' | 'widgetType' | 'keyFamily';
+
+export interface SizeReportRow {
+  group: SizeGroup;
+  key: string;
+  label: string;
+  before: SizeMeasure;
+  after: SizeMeasure;
+}
+
+/** Where the bytes of the element tree are, before and after compression */
+export interface SizeReport {
+  total: { before: SizeMeasure; after: SizeMeasure };
+  rows: SizeReportRow[];
+}
+
+export interface CompressorResult<T> {
+  cleaned: T;
+  /** Envelope the input was found in */
+  format: ElementorDocumentFormat;
+  removedCount: number;
+  changes: ChangeLogEntry[];
+  savings: Partial<Record<CompressorRuleId, RuleSavings>>;
+  normalizedText: TextNormalizationCounts;
+  /** What the `sanitize` rule found and neutralized */
+  findings: SecurityFinding[];
+  /** Present when requested with `sizeReport` */
+  sizes?: SizeReport;
+}
+
+/** Everything one conversion of raw input text produces */
+export interface ConversionOutput {
+  /** Serialized result in the requested format and encoding */
+  output: string;
+  format: ElementorDocumentFormat;
+  encoding: InputEncoding;
+  stats: CompressorStats;
+  changes: ChangeLogEntry[];
+  /** Lint problems of the result; empty unless linting was requested */
+  problems: LintProblem[];
+  /** Dangerous content neutralized by the `sanitize` rule */
+  findings: SecurityFinding[];
+  sizes?: SizeReport;
+}
+
+/** Message the app posts to the compressor worker */
+export interface CompressorJob {
+  id: number;
+  input: string;
+  options: CompressorOptions;
+  translations?: TranslationMap;
+}
+
+export type TranslationFormat = 'po' | 'xliff' | 'csv';
+
+/** A translatable string of an element, keyed by element id and setting path */
+export interface TranslationUnit {
+  elementId: string;
+  /** Path inside the element's settings, e.g. `icon_list[2].text` */
+  path: string;
+  source: string;
+  target?: string;
+  /** Widget type or elType, shown to translators as context */
+  note?: string;
+}
+
+/** Translated strings by `translationKey(elementId, path)` */
+export type TranslationMap = Record<string, string>;
+
+/** Messages the compressor worker posts back for a job */
+export type CompressorWorkerMessage =
+  | { id: number; type: 'progress'; done: number; total: number }
+  | { id: number; type: 'done'; result: ConversionOutput }
+  | { id: number; type: 'error'; message: string };
+
+export type JsonPrimitive = string | number | boolean | null;
+export type JsonValue = JsonPrimitive | JsonObject | JsonValue[];
+export interface JsonObject {
+  [key: string]: JsonValue;
+}
+
+/** Suffixes Elementor appends to a control name for each responsive breakpoint. */
+export type ResponsiveSuffix =
+  | ''
+  | '_widescreen'
+  | '_laptop'
+  | '_tablet_extra'
+  | '_tablet'
+  | '_mobile_extra'
+  | '_mobile';
+
+/** A control stored once per breakpoint, e.g. `padding`, `padding_tablet`, `padding_mobile`. */
+export type Responsive<K extends string, T> = {
+  [P in `${K}${ResponsiveSuffix}`]?: T;
+};
+
+/** Slider / size control value, e.g. `{ unit: "px", size: 10, sizes: [] }`. */
+export interface ElementorSize {
+  unit?: string;
+  size: number | string;
+  sizes: JsonValue[];
+}
+
+/** Dimensions control value used by padding, margin, border width and radius. */
+export interface ElementorDimensions {
+  unit?: string;
+  top: string;
+  right: string;
+  bottom: string;
+  left: string;
+  isLinked?: boolean;
+}
+
+/** Global style references, e.g. `{ title_color: "globals/colors?id=primary" }`. */
+export type ElementorGlobals = Record<string, string>;
+
+/** Dynamic tag bindings, e.g. `{ link: "[elementor-tag id=\"...\" name=\"site-url\" ...]" }`. */
+export type ElementorDynamic = Record<string, string>;
+
+export type ElementorSettings = {
+  __globals__?: ElementorGlobals;
+  __dynamic__?: ElementorDynamic;
+  _title?: string;
+  _element_id?: string;
+  [key: string]: JsonValue | undefined;
+} & Responsive<'padding' | 'margin' | '_padding' | '_margin', ElementorDimensions>
+  & Responsive<'width' | '_element_custom_width', ElementorSize>;
+
+export type ElementorElementType = 'container' | 'section' | 'column' | 'widget';
+
+interface ElementorElementBase<T extends ElementorElementType> {
+  id: string;
+  elType: T;
+  /** Elementor serializes empty settings as an empty PHP array. */
+  settings: ElementorSettings | [];
+  elements: ElementorElement[];
+  isInner?: boolean;
+}
+
+export interface ElementorContainer extends ElementorElementBase<'container'> {}
+export interface ElementorSection extends ElementorElementBase<'section'> {}
+export interface ElementorColumn extends ElementorElementBase<'column'> {}
+export interface ElementorWidget extends ElementorElementBase<'widget'> {
+  widgetType: string;
+}
+
+export type ElementorElement = ElementorContainer | ElementorSection | ElementorColumn | ElementorWidget;
+
+/** Payload Elementor writes to the clipboard on "Copy". */
+export interface ElementorClipboardPayload {
+  type: 'elementor';
+  siteurl: string;
+  elements: ElementorElement[];
+}
+
+/** File produced by "Export Template". */
+export interface ElementorTemplateExport {
+  version: string;
+  title: string;
+  type: string;
+  content: ElementorElement[];
+  page_settings: ElementorSettings | [];
+}
+
+export type ElementorDocument =
+  | ElementorElement[]
+  | ElementorElement
+  | ElementorClipboardPayload
+  | ElementorTemplateExport;
+
+/** Envelope kinds: a bare elements array, a single element, a clipboard payload or a template export */
+export type ElementorDocumentFormat = 'elements' | 'element' | 'clipboard' | 'template';
+
+export type ElementorParseErrorCode =
+  | 'invalid_type'
+  | 'missing_field'
+  | 'unknown_el_type'
+  | 'unknown_envelope';
+
+export interface ElementorParseIssue {
+  code: ElementorParseErrorCode;
+  /** JSONPath to the offending value, e.g. `$.content[0].elements[2].widgetType` */
+  path: string;
+  message: string;
+}
+
+export type LintSeverity = 'error' | 'warning';
+
+export type LintCode =
+  | ElementorParseErrorCode
+  | 'duplicate_id'
+  | 'invalid_nesting'
+  | 'is_inner_mismatch'
+  | 'unknown_widget_type'
+  | 'malformed_size';
+
+/** A structural problem found by the linter, located by the JSONPath of the offending value */
+export interface LintProblem extends Omit<ElementorParseIssue, 'code'> {
+  code: LintCode;
+  severity: LintSeverity;
 }
 
 export interface EditorProps {
@@ -40,5 +526,16 @@ export interface EditorProps {
   onChange?: (value: string) => void;
   readOnly?: boolean;
   placeholder?: string;
+  /** Monaco language id, `json` by default */
+  language?: string;
+  /** Shown as markers at their JSONPath; only meaningful while `value` is the linted JSON text */
+  problems?: LintProblem[];
+  onMount?: (editor: any, monaco: any) => void;
+}
+
+export interface DiffEditorProps {
+  original: string;
+  modified: string;
+  hideUnchangedRegions?: boolean;
   onMount?: (editor: any, monaco: any) => void;
-}
\ No newline at end of file
+}
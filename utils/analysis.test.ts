@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeEditorText } from './analysis';
+
+const doc = JSON.stringify([
+  { id: 'c1', elType: 'container', settings: {}, elements: [{ id: 'w1', elType: 'widget', widgetType: 'heading', settings: {}, elements: [] }] }
+]);
+
+describe('analyzeEditorText', () => {
+  it('outlines only when asked', () => {
+    expect(analyzeEditorText(doc, { lint: true, outline: false }).outline).toEqual([]);
+    const { encoding, outline } = analyzeEditorText(doc, { lint: false, outline: true });
+    expect(encoding).toBe('json');
+    expect(outline).toMatchObject([{ id: 'c1', elType: 'container', children: [{ id: 'w1', widgetType: 'heading' }] }]);
+  });
+
+  it('lints only when asked', () => {
+    const broken = JSON.stringify([{ id: 'c1', elType: 'container', settings: {}, elements: [{ elType: 'widget' }] }]);
+    expect(analyzeEditorText(broken, { lint: true, outline: false }).problems.length).toBeGreaterThan(0);
+    expect(analyzeEditorText(broken, { lint: false, outline: false }).problems).toEqual([]);
+  });
+
+  it('reports the encoding of escaped input', () => {
+    expect(analyzeEditorText(JSON.stringify(doc), { lint: true, outline: false }).encoding).toBe('string');
+  });
+
+  it('leaves text that does not decode to the editor', () => {
+    expect(analyzeEditorText('[{"id":', { lint: true, outline: true })).toEqual({ problems: [], outline: [] });
+    expect(analyzeEditorText('', { lint: true, outline: true })).toEqual({ problems: [], outline: [] });
+  });
+});
@@ -0,0 +1,51 @@
+import { InputEncoding, LintProblem } from '../types';
+import { lintElementorDocument } from './lint';
+import { OutlineNode, buildOutline } from './outline';
+import { decodeElementorData } from './postmeta';
+
+export type EditorSource = 'input' | 'output';
+
+export interface EditorAnalysisRequest {
+  lint: boolean;
+  outline: boolean;
+}
+
+/** Problems and element tree of an editor's text */
+export interface EditorAnalysis {
+  /** Undefined while the text can't be decoded */
+  encoding?: InputEncoding;
+  problems: LintProblem[];
+  outline: OutlineNode[];
+}
+
+/** Message the app posts to the analysis worker */
+export interface EditorAnalysisJob {
+  id: number;
+  source: EditorSource;
+  text: string;
+  request: EditorAnalysisRequest;
+}
+
+/** Message the analysis worker posts back for a job */
+export interface EditorAnalysisMessage {
+  id: number;
+  source: EditorSource;
+  analysis: EditorAnalysis;
+}
+
+/**
+ * Lints and outlines the text of an editor. JSON syntax errors are left to the editor,
+ * so text that doesn't decode has neither problems nor an outline.
+ */
+export const analyzeEditorText = (text: string, { lint, outline }: EditorAnalysisRequest): EditorAnalysis => {
+  try {
+    const { value, encoding } = decodeElementorData(text);
+    return {
+      encoding,
+      problems: lint ? lintElementorDocument(value) : [],
+      outline: outline ? buildOutline(value) : []
+    };
+  } catch (e) {
+    return { problems: [], outline: [] };
+  }
+};
@@ -0,0 +1,8 @@
+import { EditorAnalysisJob, EditorAnalysisMessage, analyzeEditorText } from './analysis';
+
+const post = (message: EditorAnalysisMessage) => self.postMessage(message);
+
+self.addEventListener('message', (event: MessageEvent<EditorAnalysisJob>) => {
+  const { id, source, text, request } = event.data;
+  post({ id, source, analysis: analyzeEditorText(text, request) });
+});
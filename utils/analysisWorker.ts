@@ -0,0 +1,59 @@
+import { EditorAnalysis, EditorAnalysisJob, EditorAnalysisMessage, EditorAnalysisRequest, EditorSource } from './analysis';
+
+export interface AnalysisWorker {
+  /** Queues an analysis of an editor's text, replacing the one still waiting for that editor */
+  analyze: (source: EditorSource, text: string, request: EditorAnalysisRequest) => void;
+  dispose: () => void;
+}
+
+/**
+ * Lints and outlines editor text off the main thread, one job at a time. Only the newest
+ * job of each editor is run and reported, so fast typing in a big document doesn't queue up work.
+ */
+export const createAnalysisWorker = (onAnalysis: (source: EditorSource, analysis: EditorAnalysis) => void): AnalysisWorker => {
+  let worker: Worker | null = null;
+  let running = false;
+  let nextId = 0;
+  const latest: Partial<Record<EditorSource, number>> = {};
+  const waiting = new Map<EditorSource, EditorAnalysisJob>();
+
+  const runNext = () => {
+    const job = waiting.values().next().value;
+    if (running || !job) return;
+    waiting.delete(job.source);
+    running = true;
+    const active = worker ?? (worker = createWorker());
+    active.postMessage(job);
+  };
+
+  const createWorker = (): Worker => {
+    const created = new Worker(new URL('./analysis.worker.ts', import.meta.url), { type: 'module' });
+    created.onmessage = (event: MessageEvent<EditorAnalysisMessage>) => {
+      const { id, source, analysis } = event.data;
+      running = false;
+      if (latest[source] === id) onAnalysis(source, analysis);
+      runNext();
+    };
+    created.onerror = (event) => {
+      event.preventDefault();
+      running = false;
+      runNext();
+    };
+    return created;
+  };
+
+  return {
+    analyze: (source, text, request) => {
+      const id = ++nextId;
+      latest[source] = id;
+      waiting.set(source, { id, source, text, request });
+      runNext();
+    },
+    dispose: () => {
+      worker?.terminate();
+      worker = null;
+      running = false;
+      waiting.clear();
+    }
+  };
+};
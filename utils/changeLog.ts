@@ -0,0 +1,78 @@
+import { ChangeLogEntry, CompressorRuleId, JsonValue } from '../types';
+import { getRule } from './rules';
+
+export interface ChangeLogGroup {
+  key: string;
+  label: string;
+  entries: ChangeLogEntry[];
+}
+
+const groupBy = (
+  changes: ChangeLogEntry[],
+  keyOf: (entry: ChangeLogEntry) => string,
+  labelOf: (entry: ChangeLogEntry) => string
+): ChangeLogGroup[] => {
+  const groups = new Map<string, ChangeLogGroup>();
+  for (const entry of changes) {
+    const key = keyOf(entry);
+    let group = groups.get(key);
+    if (!group) {
+      group = { key, label: labelOf(entry), entries: [] };
+      groups.set(key, group);
+    }
+    group.entries.push(entry);
+  }
+  return [...groups.values()];
+};
+
+export const groupChangesByRule = (changes: ChangeLogEntry[]): ChangeLogGroup[] =>
+  groupBy(changes, e => e.rule, e => e.ruleLabel ?? getRule(e.rule as CompressorRuleId)?.label ?? e.rule);
+
+export const groupChangesByElement = (changes: ChangeLogEntry[]): ChangeLogGroup[] =>
+  groupBy(
+    changes,
+    e => e.elementId ?? '(document)',
+    e => (e.elementId ? `${e.elementTitle ? `${e.elementTitle} ` : ''}#${e.elementId}` : 'Document')
+  );
+
+/**
+ * Old → new element ids assigned by the `regenerate-ids` rule.
+ */
+export const getIdMap = (changes: ChangeLogEntry[]): Record<string, string> => {
+  const idMap: Record<string, string> = {};
+  for (const entry of changes) {
+    if (entry.rule === 'regenerate-ids' && entry.path.endsWith('.id') && typeof entry.oldValue === 'string' && typeof entry.newValue === 'string') {
+      // Elements that shared an id each got a new one; references follow the first
+      if (!Object.prototype.hasOwnProperty.call(idMap, entry.oldValue)) idMap[entry.oldValue] = entry.newValue;
+    }
+  }
+  return idMap;
+};
+
+export const changeLogToJSON = (changes: ChangeLogEntry[]): string => JSON.stringify(changes, null, 2);
+
+const formatValue = (value: JsonValue | undefined): string => {
+  if (value === undefined) return '—';
+  const json = JSON.stringify(value);
+  const short = json.length > 80 ? `${json.slice(0, 77)}...` : json;
+  return '`' + short.replace(/`/g, "'").replace(/\|/g, '\\|') + '`';
+};
+
+/**
+ * Renders the change log as Markdown, one table per rule, for pasting into review notes.
+ */
+export const changeLogToMarkdown = (changes: ChangeLogEntry[]): string => {
+  const lines: string[] = ['# Elementor Compressor Change Log', '', `${changes.length} changes`, ''];
+  for (const group of groupChangesByRule(changes)) {
+    lines.push(`## ${group.label} (\`${group.key}\`, ${group.entries.length})`, '');
+    lines.push('| Element | Path | Old | New |', '| --- | --- | --- | --- |');
+    for (const e of group.entries) {
+      const element = e.elementId ? `${e.elementTitle ? `${e.elementTitle} ` : ''}#${e.elementId}` : '—';
+      lines.push(`| ${element.replace(/\|/g, '\\|')} | \`${e.path}\` | ${formatValue(e.oldValue)} | ${formatValue(e.newValue)} |`);
+    }
+    const details = group.entries.flatMap(e => (e.details ?? []).map(detail => `- \`${e.path}\`: ${detail}`));
+    if (details.length > 0) lines.push('', ...details);
+    lines.push('');
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { ElementorElement } from '../types';
+import { compressElementorJSON } from './compressor';
+import { mergeOptions } from './options';
+
+const widget = (widgetType: string, settings: Record<string, any>, id = 'w1'): ElementorElement =>
+  ({ id, elType: 'widget', widgetType, settings, elements: [] }) as ElementorElement;
+
+describe('compressElementorJSON findings', () => {
+  const options = mergeOptions({ direction: 'keep', rules: { sanitize: true } });
+
+  it('reports each finding at the setting it was found in', () => {
+    const { findings } = compressElementorJSON(
+      [
+        widget('html', {
+          'my-html': '<p onclick="a()">x</p><script>b()</script>',
+          link: { url: 'javascript:c()' },
+          _title: 'Embed'
+        })
+      ],
+      options
+    );
+    expect(findings).toEqual([
+      { kind: 'script', path: '$[0].settings["my-html"]', elementId: 'w1', elementTitle: 'Embed', snippet: '<script>b()</script>' },
+      { kind: 'event-handler', path: '$[0].settings["my-html"]', elementId: 'w1', elementTitle: 'Embed', snippet: 'onclick="a()"' },
+      { kind: 'javascript-url', path: '$[0].settings.link.url', elementId: 'w1', elementTitle: 'Embed', snippet: 'javascript:c()' }
+    ]);
+  });
+
+  it('uses document paths for clipboard payloads', () => {
+    const { findings } = compressElementorJSON(
+      { type: 'elementor', siteurl: '', elements: [widget('html', { html: '<script>x()</script>' })] },
+      options
+    );
+    expect(findings.map(finding => finding.path)).toEqual(['$.elements[0].settings.html']);
+  });
+});
+
+describe('compressElementorJSON tallies', () => {
+  it('counts the text normalization fixes', () => {
+    const options = mergeOptions({ direction: 'keep', rules: { 'normalize-text': true } });
+    const { cleaned, normalizedText } = compressElementorJSON(
+      [widget('heading', { title: 'علي و كتاب 12' }), widget('heading', { title: 'بدون تغییر' }, 'w2')],
+      options
+    );
+    expect(cleaned[0].settings).toEqual({ title: 'علی و کتاب ۱۲' });
+    expect(normalizedText).toEqual({ characters: 2, digits: 2, zwnj: 0 });
+  });
+});
+
+describe('compressElementorJSON savings', () => {
+  it('credits the bytes the HTML rule saved', () => {
+    const options = mergeOptions({ direction: 'keep', rules: { 'clean-html': true } });
+    const { savings } = compressElementorJSON(
+      [widget('text-editor', { editor: '<p><span style="color:red">Hi</span></p><p>&nbsp;</p>' }), widget('text-editor', { editor: '<p>Clean</p>' }, 'w2')],
+      options
+    );
+    expect(savings['clean-html']).toEqual({ removed: 1, bytes: '<p><span style=\\"color:red\\">Hi</span></p><p>&nbsp;</p>'.length - '<p>Hi</p>'.length });
+  });
+});
@@ -1,56 +1,230 @@
-import { CompressorOptions, PaddingValues } from '../types';
+import {
+  ChangeLogEntry,
+  CompressorOptions,
+  CompressorResult,
+  CompressorRule,
+  CompressorRuleId,
+  CompressorStats,
+  ElementInfo,
+  ElementorDocument,
+  ElementorElement,
+  ElementorSettings,
+  JsonObject,
+  JsonValue,
+  RuleContext,
+  RuleSavings,
+  RuleKeyAction,
+  RuleKeyContext,
+  RuleTargetContext,
+  RuleTransformContext,
+  SecurityFinding,
+  TranslationMap
+} from '../types';
+import {
+  detectDocumentFormat,
+  getDocumentElements,
+  isContainer as isContainerNode,
+  isElementorElement,
+  isJsonObject
+} from './elementor';
+import { childPath } from './jsonPath';
+import { hierarchyPath } from './outline';
+import { buildSizeReport } from './sizeReport';
+import { isRuleEnabled, ruleRegistry } from './rules';
+import { applyCustomRules } from './rules/custom';
+import { emptyTextNormalizationCounts } from './persianText';
+import { applyTranslations } from './translations';
 
 /**
- * Sanitizes a string to be used as a valid HTML ID attribute.
+ * Checks whether a rule's scope covers the given element and key.
  */
-const sanitizeToId = (str: string): string => {
-  return str
-    .toLowerCase()
-    .replace(/[\s\-\/]+/g, '_')
-    .replace(/^_+|_+$/g, '');
+const ruleApplies = (rule: CompressorRule, element: ElementInfo | undefined, key?: string | number): boolean => {
+  const scope = rule.appliesTo;
+  if (!scope) return true;
+  if (scope.elType && (!element || !scope.elType.includes(element.elType))) return false;
+  if (scope.widgetType && (!element?.widgetType || !scope.widgetType.includes(element.widgetType))) return false;
+  if (scope.containerLevel) {
+    if (!element || element.elType !== 'container' || !scope.containerLevel.includes(Math.min(element.level, 3))) return false;
+  }
+  if (scope.settingsKey && key !== undefined) {
+    if (typeof key !== 'string') return false;
+    if (!scope.settingsKey.some(p => (typeof p === 'string' ? p === key : p.test(key)))) return false;
+  }
+  return true;
 };
 
-const mapPaddingToElementor = (p: PaddingValues) => ({
-  unit: "px",
-  isLinked: false,
-  top: p.top || "0",
-  right: p.right || "0",
-  bottom: p.bottom || "0",
-  left: p.left || "0"
-});
+/** Leftovers the `clean` page settings policy drops: null, blank size objects and `{}` */
+const isEmptyPageSetting = (value: JsonValue | undefined): boolean => {
+  if (value === null) return true;
+  if (!isJsonObject(value)) return false;
+  if (Object.keys(value).length === 0) return true;
+  return value.size === '' && Array.isArray(value.sizes) && value.sizes.length === 0;
+};
+
+const countElements = (val: JsonValue): number => {
+  if (Array.isArray(val)) return val.reduce<number>((sum, item) => sum + countElements(item), 0);
+  if (!isJsonObject(val)) return 0;
+  return (isElementorElement(val) ? 1 : 0) + countElements((val.elements ?? []) as JsonValue);
+};
+
+export interface CompressorRunSettings {
+  /** Called after each element with the number of elements cleaned so far */
+  onProgress?: (done: number, total: number) => void;
+  /** Adds a size breakdown of the element tree before and after to the result */
+  sizeReport?: boolean;
+  /** Translated strings written into the element tree before any rule runs */
+  translations?: TranslationMap;
+}
 
 /**
- * Deeply cleans an Elementor JSON object based on specific optimization rules.
+ * Deeply cleans an Elementor JSON object by running the enabled rules of the rule registry.
+ * Rules only see the element tree; the envelope is kept and `page_settings` follow `options.pageSettings`.
+ * Every removal or rewrite is recorded in `changes` with the rule that caused it.
  */
-export const compressElementorJSON = (
-  obj: any,
-  options: CompressorOptions
-): { cleaned: any; removedCount: number } => {
+export const compressElementorJSON = <T extends ElementorDocument>(
+  obj: T,
+  options: CompressorOptions,
+  { onProgress, sizeReport = false, translations }: CompressorRunSettings = {}
+): CompressorResult<T> => {
   let removedCount = 0;
+  const changes: ChangeLogEntry[] = [];
+  const savings: Partial<Record<CompressorRuleId, RuleSavings>> = {};
+  const encoder = new TextEncoder();
+
+  const creditSavings = (rule: CompressorRule, bytes: number) => {
+    const tally = savings[rule.id] ?? (savings[rule.id] = { removed: 0, bytes: 0 });
+    tally.removed++;
+    tally.bytes += bytes;
+  };
 
-  const keysToRemovePrefixes = [
-    "background_hover_video",
-    "background_motion_fx",
-    "background_overlay_video",
-    "background_overlay_hover",
-    "css_filters_hover",
-    "box_shadow_hover",
-    "shape_divider",
-    "sticky"
-  ];
-
-  const isRedundantElementorObject = (val: any): boolean => {
-    if (val && typeof val === 'object' && !Array.isArray(val)) {
-      const hasSize = 'size' in val;
-      const hasSizes = 'sizes' in val;
-      if (hasSize && hasSizes) {
-        if (val.size === "" && Array.isArray(val.sizes) && val.sizes.length === 0) {
-          return true;
-        }
+  /** Tallies the minified size of a removed `"key":value,` entry (or array item) */
+  const addSavings = (rule: CompressorRule, key: string | number, value: JsonValue) => {
+    const entry = typeof key === 'string' ? `${JSON.stringify(key)}:${JSON.stringify(value)},` : `${JSON.stringify(value)},`;
+    creditSavings(rule, encoder.encode(entry).length);
+  };
+
+  /** Tallies how much smaller a rewritten value got when minified */
+  const addRewriteSavings = (rule: CompressorRule, oldValue: JsonValue, newValue: JsonValue) =>
+    creditSavings(rule, encoder.encode(JSON.stringify(oldValue)).length - encoder.encode(JSON.stringify(newValue)).length);
+
+  const rules = ruleRegistry.filter(rule => isRuleEnabled(options, rule));
+  const enabledIds = new Set<CompressorRuleId>(rules.map(rule => rule.id));
+  const baseContext: RuleContext = { options, isEnabled: (id) => enabledIds.has(id) };
+  const legacyTypes = new WeakMap<JsonObject, ElementInfo['legacyType']>();
+
+  // Rules work on the bare element tree, so numbering and paths don't depend on the envelope
+  const format = detectDocumentFormat(obj);
+  const treePath = format === 'clipboard' ? '$.elements' : format === 'template' ? '$.content' : '$';
+  const toDocumentPath = (path: string): string =>
+    format === 'element' ? `$${path.slice('$[0]'.length)}` : `${treePath}${path.slice(1)}`;
+
+  const addEntry = (
+    rule: ChangeLogEntry['rule'],
+    path: string,
+    element: ElementInfo | undefined,
+    oldValue: JsonValue | undefined,
+    newValue: JsonValue | undefined,
+    ruleLabel?: string,
+    details?: string[]
+  ) => {
+    if (oldValue !== undefined && newValue !== undefined && JSON.stringify(oldValue) === JSON.stringify(newValue)) return;
+    const entry: ChangeLogEntry = { rule, path };
+    if (ruleLabel) entry.ruleLabel = ruleLabel;
+    if (element?.id) entry.elementId = element.id;
+    if (element?.title) entry.elementTitle = element.title;
+    if (oldValue !== undefined) entry.oldValue = oldValue;
+    if (newValue !== undefined) entry.newValue = newValue;
+    if (details?.length) entry.details = details;
+    changes.push(entry);
+  };
+
+  const findings: SecurityFinding[] = [];
+  const tallies: Partial<Record<CompressorRuleId, Record<string, number>>> = {};
+
+  const tally = (rule: CompressorRule, counter: string, amount: number) => {
+    const counters = tallies[rule.id] ?? (tallies[rule.id] = {});
+    counters[counter] = (counters[counter] ?? 0) + amount;
+  };
+
+  /** Lists a security finding at a path relative to the element tree */
+  const report = (path: string, element: ElementInfo | undefined, issue: Pick<SecurityFinding, 'kind' | 'snippet'>) => {
+    const finding: SecurityFinding = { ...issue, path: toDocumentPath(path) };
+    if (element?.id) finding.elementId = element.id;
+    if (element?.title) finding.elementTitle = element.title;
+    findings.push(finding);
+  };
+
+  /** Logs a built-in rule change at a path relative to the element tree */
+  const record = (
+    rule: CompressorRuleId,
+    path: string,
+    element: ElementInfo | undefined,
+    oldValue: JsonValue | undefined,
+    newValue: JsonValue | undefined,
+    details?: string[]
+  ) => addEntry(rule, toDocumentPath(path), element, oldValue, newValue, undefined, details);
+
+  const targetContext = (
+    rule: CompressorRule,
+    target: JsonObject,
+    targetPath: string,
+    element: ElementInfo
+  ): RuleTargetContext => ({
+    ...baseContext,
+    element,
+    target,
+    set: (key, value) => {
+      record(rule.id, childPath(targetPath, key), element, target[key], value);
+      target[key] = value;
+    },
+    remove: (key) => {
+      if (!(key in target)) return;
+      record(rule.id, childPath(targetPath, key), element, target[key], undefined);
+      delete target[key];
+    },
+    strip: (key) => {
+      if (!(key in target)) return;
+      record(rule.id, childPath(targetPath, key), element, target[key], undefined);
+      addSavings(rule, key, target[key]);
+      removedCount++;
+      delete target[key];
+    }
+  });
+
+  /**
+   * Runs one kind of key hook over the matching rules.
+   * Returns undefined when a rule removed the key.
+   */
+  const runKeyHooks = (
+    hook: 'beforeKey' | 'afterKey',
+    ctx: Omit<RuleKeyContext, 'addKey' | 'report' | 'tally' | 'addSavings'>,
+    path: string,
+    addKey?: (rule: CompressorRule, key: string, value: JsonValue) => void
+  ): { value: JsonValue; final: boolean } | undefined => {
+    let value = ctx.value;
+    for (const rule of rules) {
+      const fn = rule[hook];
+      if (!fn || !ruleApplies(rule, ctx.element, ctx.key)) continue;
+      const action: RuleKeyAction | void = fn({
+        ...ctx,
+        value,
+        addKey: (key, added) => addKey?.(rule, key, added),
+        report: (issue) => report(path, ctx.element, issue),
+        tally: (counter, amount) => tally(rule, counter, amount),
+        addSavings: (oldValue, newValue) => addRewriteSavings(rule, oldValue, newValue)
+      });
+      if (!action) continue;
+      if ('remove' in action) {
+        record(rule.id, path, ctx.element, value, undefined);
+        addSavings(rule, ctx.key, value);
+        removedCount++;
+        return undefined;
       }
-      if (Object.keys(val).length === 0) return true;
+      record(rule.id, path, ctx.element, value, action.value, action.details);
+      value = action.value;
+      if (action.final) return { value, final: true };
     }
-    return false;
+    return { value, final: false };
   };
 
   /**
@@ -59,242 +233,200 @@ export const compressElementorJSON = (
    * @param parentKey key of the node in parent
    * @param containerLevel depth (1: Section, 2: Container, 3+: Inner)
    * @param context hierarchy path (e.g. "1-2-1")
+   * @param jsonPath JSONPath of the node, used for the change log
+   * @param element closest enclosing element
    */
   const clean = (
-    val: any,
+    val: JsonValue,
     parentKey?: string,
     containerLevel: number = 0,
-    contextPath: string = ""
-  ): any => {
+    contextPath: string = "",
+    jsonPath: string = "$",
+    element?: ElementInfo
+  ): JsonValue => {
     if (Array.isArray(val)) {
       let containerCounter = 0;
-      return val.map((item) => {
-        const isContainer = item && typeof item === 'object' && item.elType === 'container';
+      const cleanedArr: JsonValue[] = [];
+      val.forEach((item, index) => {
         let itemPath = contextPath;
 
-        if (isContainer) {
+        if (isContainerNode(item)) {
           containerCounter++;
-          itemPath = contextPath ? `${contextPath}-${containerCounter}` : `${containerCounter}`;
+          itemPath = hierarchyPath(contextPath, containerCounter);
         }
 
-        return clean(item, parentKey, containerLevel, itemPath);
-      }).filter(item => {
-        if (item === null || item === undefined) {
-          removedCount++;
-          return false;
-        }
-        return true;
+        const path = childPath(jsonPath, index);
+        const cleanedItem = clean(item, parentKey, containerLevel, itemPath, path, element);
+        const result = runKeyHooks('afterKey', { ...baseContext, element, key: index, value: cleanedItem, parentKey, node: val }, path);
+        if (result) cleanedArr.push(result.value);
       });
+      return cleanedArr;
     }
 
-    if (val !== null && typeof val === 'object') {
-      const cleanedObj: any = {};
-      let shouldAddFlexAlign = false;
-
-      const isContainer = val.elType === 'container';
-      const isTextEditor = val.widgetType === 'text-editor';
-      const isIconBox = val.widgetType === 'icon-box';
+    if (isJsonObject(val)) {
+      const cleanedObj: JsonObject = {};
+      const additions: JsonObject = {};
+      const addKey = (rule: CompressorRule, key: string, value: JsonValue) => {
+        record(rule.id, childPath(jsonPath, key), element, val[key], value);
+        additions[key] = value;
+      };
 
       let nextContainerLevel = containerLevel;
-      let newName = "";
-      let newId = "";
-
-      if (isContainer) {
-        nextContainerLevel++;
-        if (options.autoRename && contextPath) {
-          if (nextContainerLevel === 1) {
-            newName = `Section ${contextPath}`;
-            newId = `section_${contextPath}`;
-          } else if (nextContainerLevel === 2) {
-            newName = `Container ${contextPath}`;
-          } else {
-            newName = `Inner ${contextPath}`;
-          }
-        }
+      const isElement = isElementorElement(val);
+
+      if (isElement) {
+        if (val.elType === 'container') nextContainerLevel++;
+        const title = isJsonObject(val.settings) ? val.settings['_title'] : undefined;
+        element = {
+          id: val.id,
+          title: typeof title === 'string' ? title : undefined,
+          elType: val.elType,
+          widgetType: val.elType === 'widget' ? val.widgetType : undefined,
+          level: nextContainerLevel,
+          path: contextPath
+        };
+        const legacyType = legacyTypes.get(val);
+        if (legacyType) element.legacyType = legacyType;
       }
 
       for (const key in val) {
-        let value = val[key];
+        const keyPath = childPath(jsonPath, key);
+        const keyContext = { ...baseContext, element, key, value: val[key], parentKey, node: val };
 
-        if (options.removeMotionFX && key.startsWith('motion_fx_')) {
-          removedCount++;
+        const before = runKeyHooks('beforeKey', keyContext, keyPath, addKey);
+        if (!before) continue;
+        if (before.final) {
+          cleanedObj[key] = before.value;
           continue;
         }
 
-        if (options.rtlize) {
-          if (key === 'uich_custom_css_field' || keysToRemovePrefixes.some(p => key.startsWith(p))) {
-            removedCount++;
-            continue;
-          }
-        }
-
-        if (key === '_element_width') {
-          cleanedObj[key] = "";
-          continue;
-        }
-
-        if (key === '_element_custom_width' || key === '_element_custom_width_tablet') {
-          shouldAddFlexAlign = true;
-          removedCount++;
-          continue;
-        }
-
-        if (isRedundantElementorObject(value)) {
-          removedCount++;
-          continue;
-        }
-
-        let cleanedValue = clean(value, key, nextContainerLevel, contextPath);
-
-        // --- RTL Absolute Position Flip ---
-        if (options.rtlize && (key === '_offset_orientation_h' || key === '_offset_orientation_h_tablet' || key === '_offset_orientation_h_mobile')) {
-          const posKey = key.includes('_tablet') ? '_position_tablet' : (key.includes('_mobile') ? '_position_mobile' : '_position');
-          const currentPos = val[posKey] || val['_position'];
-
-          if (currentPos === 'absolute' || currentPos === 'fixed') {
-            if (cleanedValue === 'start') {
-              cleanedValue = 'end';
-            } else if (cleanedValue === 'end') {
-              cleanedValue = 'start';
-            }
-          }
-        }
-
-        // --- Container Settings Adjustments ---
-        if (isContainer && key === 'settings' && cleanedValue && typeof cleanedValue === 'object') {
+        const cleanedValue = clean(before.value, key, nextContainerLevel, contextPath, keyPath, element);
 
-          // Naming logic
-          if (options.autoRename && newName) {
-            cleanedValue['_title'] = newName;
-            if (newId) cleanedValue['_element_id'] = newId;
-          }
-
-          // Independent Margin logic
-          if (options.removeMargins) {
-            delete cleanedValue['margin'];
-            delete cleanedValue['margin_tablet'];
-            delete cleanedValue['margin_mobile'];
-          }
-
-          if (nextContainerLevel === 1) {
-            // Level 1: Section - Full Width
-            cleanedValue['content_width'] = 'full';
-            cleanedValue['width'] = { unit: "%", size: 100, sizes: [] };
-
-            if (options.applyMotherPadding) {
-              cleanedValue['padding'] = mapPaddingToElementor(options.motherPadding.desktop);
-              cleanedValue['padding_tablet'] = mapPaddingToElementor(options.motherPadding.tablet);
-              cleanedValue['padding_mobile'] = mapPaddingToElementor(options.motherPadding.mobile);
-            }
-
-            if (options.rtlize) {
-              cleanedValue['flex_direction'] = 'row-reverse';
-              if (!options.autoRename && cleanedValue['_title'] && !cleanedValue['_element_id']) {
-                cleanedValue['_element_id'] = sanitizeToId(cleanedValue['_title']);
-              }
-            }
-          } else if (nextContainerLevel === 2) {
-            // Level 2: Boxed, stripped widths
-            cleanedValue['content_width'] = 'boxed';
-            delete cleanedValue['width'];
-            delete cleanedValue['width_tablet'];
-            delete cleanedValue['width_mobile'];
-
-            if (options.removeLevel2Padding) {
-              delete cleanedValue['padding'];
-              delete cleanedValue['padding_tablet'];
-              delete cleanedValue['padding_mobile'];
-            }
-
-            if (options.applyLevel2Padding) {
-              cleanedValue['padding'] = mapPaddingToElementor(options.level2Padding.desktop);
-              cleanedValue['padding_tablet'] = mapPaddingToElementor(options.level2Padding.tablet);
-              cleanedValue['padding_mobile'] = mapPaddingToElementor(options.level2Padding.mobile);
-            }
-
-            if (options.rtlize) {
-              cleanedValue['flex_size'] = 'none';
-              if (cleanedValue['flex_direction'] === 'row') cleanedValue['flex_direction'] = 'row-reverse';
-            }
-          } else {
-            // Level 3+: Inner
-            cleanedValue['content_width'] = 'full';
-            cleanedValue['width'] = { unit: "%", size: 100, sizes: [] };
-            cleanedValue['width_tablet'] = { unit: "%", size: 100, sizes: [] };
-            cleanedValue['width_mobile'] = { unit: "%", size: 100, sizes: [] };
-
-            // delete cleanedValue['width'];
-            // delete cleanedValue['width_tablet'];
-            // delete cleanedValue['width_mobile'];
-
-            if (options.removeLevel3Padding) {
-              delete cleanedValue['padding'];
-              delete cleanedValue['padding_tablet'];
-              delete cleanedValue['padding_mobile'];
-            }
-
-            if (options.applyLevel3Padding) {
-              cleanedValue['padding'] = mapPaddingToElementor(options.level3Padding.desktop);
-              cleanedValue['padding_tablet'] = mapPaddingToElementor(options.level3Padding.tablet);
-              cleanedValue['padding_mobile'] = mapPaddingToElementor(options.level3Padding.mobile);
-            }
-
-            if (options.rtlize && cleanedValue['flex_direction'] === 'row') {
-              cleanedValue['flex_direction'] = 'row-reverse';
+        if (isElement && element && key === 'settings' && isJsonObject(cleanedValue)) {
+          for (const rule of rules) {
+            if (rule.settings && ruleApplies(rule, element)) {
+              rule.settings(targetContext(rule, cleanedValue, keyPath, element));
             }
           }
         }
 
-        // isInner flag logic
-        if (key === 'isInner' && isContainer) {
-          cleanedValue = (nextContainerLevel !== 1);
-        }
-
-        // RTL Widget Alignments
-        if (options.rtlize) {
-          if (parentKey === 'settings' && key === 'flex_direction' && cleanedValue === 'row') {
-             if (!isContainer) cleanedValue = 'row-reverse';
-          }
-          if (isTextEditor && key === 'settings' && cleanedValue && typeof cleanedValue === 'object') {
-            cleanedValue['align'] = 'start';
-          }
-          if (isIconBox && key === 'settings' && cleanedValue && typeof cleanedValue === 'object') {
-            cleanedValue['text_align'] = 'start';
-          }
-        }
+        const after = runKeyHooks('afterKey', { ...keyContext, value: cleanedValue }, keyPath, addKey);
+        if (!after) continue;
 
-        if (cleanedValue === null || cleanedValue === undefined) {
-          removedCount++;
-          continue;
-        }
+        cleanedObj[key] = after.value;
+      }
 
-        if (typeof cleanedValue === 'object' && !Array.isArray(cleanedValue) && Object.keys(cleanedValue).length === 0) {
-          if (key !== 'settings' && key !== 'elements') {
-            removedCount++;
-            continue;
+      if (isElement && element) {
+        for (const rule of rules) {
+          if (rule.finalize && ruleApplies(rule, element)) {
+            rule.finalize(targetContext(rule, cleanedObj, jsonPath, element));
           }
         }
-
-        cleanedObj[key] = cleanedValue;
-      }
-
-      if (isContainer && !('isInner' in cleanedObj)) {
-        cleanedObj['isInner'] = (nextContainerLevel !== 1);
-      }
-
-      if (shouldAddFlexAlign) {
-        cleanedObj['_flex_align_self'] = 'flex-start';
       }
 
+      Object.assign(cleanedObj, additions);
+      if (isElement) onProgress?.(++elementsDone, elementsTotal);
       return cleanedObj;
     }
 
     return val;
   };
 
+  // Whole-tree rewrites run first, so the cleaner sees their result
+  let root = getDocumentElements(obj) as unknown as JsonValue;
+  // Translations are keyed by the input's element ids, so they go in before ids are regenerated
+  if (translations) {
+    root = applyTranslations(root, translations, (path, element, oldValue, newValue) =>
+      addEntry('translation', toDocumentPath(path), element, oldValue, newValue, 'Translation')
+    );
+  }
+  for (const rule of rules) {
+    if (!rule.transform) continue;
+    const ctx: RuleTransformContext = {
+      ...baseContext,
+      record: (path, element, oldValue, newValue) => record(rule.id, path, element, oldValue, newValue),
+      setLegacyType: (node, type) => legacyTypes.set(node, type)
+    };
+    root = rule.transform(root, ctx);
+  }
+
+  const elementsTotal = countElements(root);
+  let elementsDone = 0;
+  const elements = clean(root) as unknown as ElementorElement[];
+
+  const cleanPageSettings = (settings: ElementorSettings | []): ElementorSettings | [] => {
+    if (options.pageSettings === 'remove') {
+      addEntry('page-settings', '$.page_settings', undefined, settings as JsonValue, [], 'Page Settings');
+      return [];
+    }
+    if (options.pageSettings === 'keep' || Array.isArray(settings)) return settings;
+    const kept: JsonObject = {};
+    for (const [key, value] of Object.entries(settings as JsonObject)) {
+      if (isEmptyPageSetting(value)) {
+        addEntry('page-settings', childPath('$.page_settings', key), undefined, value, undefined, 'Page Settings');
+        removedCount++;
+      } else {
+        kept[key] = value;
+      }
+    }
+    // Elementor exports empty page settings as an empty PHP array
+    return Object.keys(kept).length > 0 ? (kept as ElementorSettings) : [];
+  };
+
+  let document: ElementorDocument;
+  if (Array.isArray(obj)) {
+    document = elements;
+  } else if ('content' in obj) {
+    document = { ...obj, content: elements, page_settings: cleanPageSettings(obj.page_settings ?? []) };
+  } else if ('elType' in obj) {
+    document = elements[0];
+  } else {
+    document = { ...obj, elements };
+  }
+
+  // User-defined rules run last, on the output of the built-in rules
+  const custom = applyCustomRules(document as unknown as JsonValue, options.customRules ?? [], (rule, path, element, oldValue, newValue) =>
+    addEntry(`custom:${rule.id}`, path, element, oldValue, newValue, rule.name)
+  );
+  removedCount += custom.removedCount;
+
+  const result: CompressorResult<T> = {
+    // The envelope is preserved, only the element tree and page settings are rewritten
+    cleaned: custom.cleaned as unknown as T,
+    format,
+    removedCount,
+    changes,
+    savings,
+    normalizedText: { ...emptyTextNormalizationCounts(), ...tallies['normalize-text'] },
+    findings
+  };
+  if (sizeReport) result.sizes = buildSizeReport(getDocumentElements(obj), getDocumentElements(result.cleaned));
+  return result;
+};
+
+/**
+ * Builds the size statistics shown after a conversion.
+ */
+export const buildStats = (
+  original: string,
+  compressed: string,
+  result: Pick<CompressorResult<unknown>, 'removedCount' | 'savings' | 'normalizedText'>
+): CompressorStats => {
+  const encoder = new TextEncoder();
+  const originalBytes = encoder.encode(original).length;
+  const compressedBytes = encoder.encode(compressed).length;
+  const defaults = result.savings['remove-default-values'];
+  const html = result.savings['clean-html'];
   return {
-    cleaned: clean(obj),
-    removedCount
+    originalSize: originalBytes,
+    compressedSize: compressedBytes,
+    reductionPercentage: originalBytes > 0 ? ((originalBytes - compressedBytes) / originalBytes) * 100 : 0,
+    removedKeys: result.removedCount,
+    removedDefaults: defaults?.removed ?? 0,
+    removedDefaultsBytes: defaults?.bytes ?? 0,
+    normalizedText: result.normalizedText,
+    cleanedHtml: html?.removed ?? 0,
+    cleanedHtmlBytes: html?.bytes ?? 0
   };
 };
 
@@ -304,4 +436,4 @@ export const formatByteSize = (bytes: number): string => {
   const sizes = ['B', 'KB', 'MB', 'GB'];
   const i = Math.floor(Math.log(bytes) / Math.log(k));
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-};
\ No newline at end of file
+};
@@ -0,0 +1,28 @@
+import { CompressorJob, CompressorWorkerMessage } from '../types';
+import { convertElementorInput } from './pipeline';
+
+/** Minimum time between progress messages, in ms */
+const PROGRESS_INTERVAL = 50;
+
+const post = (message: CompressorWorkerMessage) => self.postMessage(message);
+
+self.addEventListener('message', (event: MessageEvent<CompressorJob>) => {
+  const { id, input, options, translations } = event.data;
+  let lastReport = 0;
+  try {
+    const result = convertElementorInput(input, options, {
+      lint: true,
+      sizeReport: true,
+      translations,
+      onProgress: (done, total) => {
+        const now = performance.now();
+        if (done < total && now - lastReport < PROGRESS_INTERVAL) return;
+        lastReport = now;
+        post({ id, type: 'progress', done, total });
+      }
+    });
+    post({ id, type: 'done', result });
+  } catch (e: any) {
+    post({ id, type: 'error', message: e.message });
+  }
+});
@@ -0,0 +1,81 @@
+import { CompressorOptions, CompressorWorkerMessage, ConversionOutput, TranslationMap } from '../types';
+
+/** Rejects a job that was cancelled or superseded by a newer one */
+export class ConversionCancelledError extends Error {
+  constructor() {
+    super('Conversion cancelled');
+    this.name = 'ConversionCancelledError';
+  }
+}
+
+export interface CompressorWorkerRunSettings {
+  translations?: TranslationMap;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface CompressorWorker {
+  /** Starts a conversion, cancelling the one still running */
+  run: (input: string, options: CompressorOptions, settings?: CompressorWorkerRunSettings) => Promise<ConversionOutput>;
+  cancel: () => void;
+  isRunning: () => boolean;
+  dispose: () => void;
+}
+
+/**
+ * Runs conversions off the main thread. A conversion can't be interrupted from inside,
+ * so cancelling terminates the worker and the next job starts a fresh one.
+ */
+export const createCompressorWorker = (): CompressorWorker => {
+  let worker: Worker | null = null;
+  let current: { id: number; reject: (reason: Error) => void } | null = null;
+  let nextId = 0;
+
+  const terminate = () => {
+    worker?.terminate();
+    worker = null;
+  };
+
+  const cancel = () => {
+    if (!current) return;
+    terminate();
+    current.reject(new ConversionCancelledError());
+    current = null;
+  };
+
+  const run: CompressorWorker['run'] = (input, options, { translations, onProgress } = {}) => new Promise((resolve, reject) => {
+    cancel();
+    const id = ++nextId;
+    const active = worker ?? (worker = new Worker(new URL('./compressor.worker.ts', import.meta.url), { type: 'module' }));
+    current = { id, reject };
+
+    active.onmessage = (event: MessageEvent<CompressorWorkerMessage>) => {
+      const message = event.data;
+      if (message.id !== current?.id) return;
+      if (message.type === 'progress') {
+        onProgress?.(message.done, message.total);
+        return;
+      }
+      current = null;
+      if (message.type === 'done') resolve(message.result);
+      else reject(new Error(message.message));
+    };
+    active.onerror = (event) => {
+      event.preventDefault();
+      current = null;
+      terminate();
+      reject(new Error(event.message || 'Compressor worker failed'));
+    };
+
+    active.postMessage({ id, input, options, translations });
+  });
+
+  return {
+    run,
+    cancel,
+    isRunning: () => current !== null,
+    dispose: () => {
+      cancel();
+      terminate();
+    }
+  };
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { minifyCss, mirrorCss } from './css';
+
+const css = `
+/* Header */
+selector .title {
+  margin-left: 10px;
+  padding: 1px 2px 3px 4px;
+  /* @noflip */ text-align: left;
+  font-family: "Left Sans", serif;
+}
+/* @noflip */
+selector .logo { float: left; }
+@media (max-width: 767px) {
+  selector .title { transform: translateX(20px) rotate(5deg); background-position: 25% center; }
+}
+`;
+
+describe('mirrorCss', () => {
+  it('flips direction-dependent declarations and lists them', () => {
+    const { css: mirrored, rewrites } = mirrorCss(css);
+    expect(minifyCss(mirrored)).toBe(
+      'selector .title{margin-right:10px;padding:1px 4px 3px 2px;/*@noflip*/text-align:left;font-family:"Left Sans",serif}' +
+        '/*@noflip*/selector .logo{float:left}' +
+        '@media (max-width:767px){selector .title{transform:translateX(-20px) rotate(-5deg);background-position:75% center}}'
+    );
+    expect(rewrites.map(rewrite => rewrite.after)).toEqual([
+      'margin-right: 10px',
+      'padding: 1px 4px 3px 2px',
+      'transform: translateX(-20px) rotate(-5deg)',
+      'background-position: 75% center'
+    ]);
+  });
+
+  it('restores the original when mirrored twice', () => {
+    expect(mirrorCss(mirrorCss(css).css).css).toBe(css);
+  });
+});
+
+describe('minifyCss', () => {
+  it('keeps strings, calc() and the selector placeholder intact', () => {
+    expect(minifyCss('selector  >  .a ,  selector .b {\n  width: calc( 100% - 2px );\n  content: "  a ,  b  ";\n}\n.empty { }')).toBe(
+      'selector>.a,selector .b{width:calc( 100% - 2px );content:"  a ,  b  "}'
+    );
+  });
+
+  it('keeps @noflip through mirror → minify → mirror', () => {
+    const minified = minifyCss(mirrorCss(css).css);
+    expect(minified).toContain('/*@noflip*/text-align:left');
+    expect(minified).toContain('/*@noflip*/selector .logo{float:left}');
+    expect(minifyCss(mirrorCss(minified).css)).toBe(minifyCss(css));
+  });
+});
@@ -0,0 +1,321 @@
+/**
+ * Just enough CSS parsing for Elementor's custom CSS fields: rules, at-rules and declarations
+ * with their source offsets. Never throws; unbalanced input is read as far as it goes.
+ * The `selector` placeholder Elementor replaces at render time is an ordinary selector here.
+ */
+
+/** Custom CSS fields of Elementor Pro and the UiCore addons */
+export const customCssKeys = ['custom_css', 'uich_custom_css_field'];
+
+export interface CssDeclaration {
+  type: 'declaration';
+  property: string;
+  value: string;
+  important: boolean;
+  /** Offsets of the declaration text, without the trailing `;` */
+  start: number;
+  end: number;
+  /** Preceded by a `/* @noflip *\/` comment */
+  noflip: boolean;
+}
+
+export interface CssRule {
+  type: 'rule';
+  /** Selector or at-rule prelude, e.g. `selector .title` or `@media (max-width: 767px)` */
+  prelude: string;
+  items: CssItem[];
+  noflip: boolean;
+}
+
+/** At-rule without a block, e.g. `@import url(x.css)` */
+export interface CssStatement {
+  type: 'statement';
+  text: string;
+}
+
+export type CssItem = CssDeclaration | CssRule | CssStatement;
+
+/** A declaration the mirror pass changed, for the change log */
+export interface CssRewrite {
+  /** Enclosing preludes, outermost first */
+  selectors: string[];
+  before: string;
+  after: string;
+}
+
+const isWhitespace = (ch: string): boolean => ch === ' ' || ch === '\n' || ch === '\r' || ch === '\t' || ch === '\f';
+
+export const parseCss = (css: string): CssItem[] => {
+  let i = 0;
+
+  const skipComment = (): string => {
+    const end = css.indexOf('*/', i + 2);
+    const comment = css.slice(i, end === -1 ? css.length : end + 2);
+    i = end === -1 ? css.length : end + 2;
+    return comment;
+  };
+
+  /** Reads up to the next top-level `;`, `{` or `}`, skipping strings, parentheses and comments */
+  const readChunk = (): { text: string; start: number; end: number; stop: string } => {
+    const start = i;
+    let text = '';
+    let depth = 0;
+    while (i < css.length) {
+      const ch = css[i];
+      if (ch === '/' && css[i + 1] === '*') {
+        skipComment();
+        text += ' ';
+        continue;
+      }
+      if (ch === '"' || ch === "'") {
+        const from = i++;
+        while (i < css.length && css[i] !== ch) i += css[i] === '\\' ? 2 : 1;
+        i++;
+        text += css.slice(from, i);
+        continue;
+      }
+      if (ch === '(') depth++;
+      else if (ch === ')') depth = Math.max(0, depth - 1);
+      else if (depth === 0 && (ch === ';' || ch === '{' || ch === '}')) break;
+      text += ch;
+      i++;
+    }
+    let end = i;
+    while (end > start && isWhitespace(css[end - 1])) end--;
+    return { text: text.trim(), start, end, stop: css[i] ?? '' };
+  };
+
+  const parseItems = (nested: boolean): CssItem[] => {
+    const items: CssItem[] = [];
+    let noflip = false;
+
+    while (i < css.length) {
+      if (isWhitespace(css[i])) {
+        i++;
+        continue;
+      }
+      if (css[i] === '/' && css[i + 1] === '*') {
+        if (/@noflip\b/.test(skipComment())) noflip = true;
+        continue;
+      }
+      if (css[i] === '}') {
+        i++;
+        if (nested) return items;
+        continue;
+      }
+
+      const chunk = readChunk();
+      if (chunk.stop === '{') {
+        i++;
+        items.push({ type: 'rule', prelude: chunk.text.replace(/\s+/g, ' '), items: parseItems(true), noflip });
+      } else {
+        if (chunk.stop === ';') i++;
+        const colon = chunk.text.indexOf(':');
+        if (nested && !chunk.text.startsWith('@') && colon > 0) {
+          const important = /!\s*important\s*$/i.test(chunk.text);
+          items.push({
+            type: 'declaration',
+            property: chunk.text.slice(0, colon).trim().toLowerCase(),
+            value: chunk.text.slice(colon + 1).replace(/!\s*important\s*$/i, '').trim(),
+            important,
+            start: chunk.start,
+            end: chunk.end,
+            noflip
+          });
+        } else if (chunk.text) {
+          items.push({ type: 'statement', text: chunk.text });
+        }
+      }
+      noflip = false;
+    }
+    return items;
+  };
+
+  return parseItems(false);
+};
+
+const swapLeftRight = (str: string): string =>
+  str.replace(/\b(left|right)\b/gi, side => {
+    const swapped = side.toLowerCase() === 'left' ? 'right' : 'left';
+    return side[0] === side[0].toUpperCase() ? swapped[0].toUpperCase() + swapped.slice(1) : swapped;
+  });
+
+/** Splits a value on top-level whitespace, keeping functions like `calc(1px + 2px)` whole */
+const splitValue = (value: string, separator: RegExp = /\s/): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const ch of value) {
+    if (ch === '(') depth++;
+    else if (ch === ')') depth--;
+    if (depth === 0 && separator.test(ch)) {
+      if (current) parts.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  if (current) parts.push(current);
+  return parts;
+};
+
+const negate = (length: string): string => {
+  const trimmed = length.trim();
+  if (/^[+-]?0(\.0*)?[a-z%]*$/i.test(trimmed)) return trimmed;
+  if (trimmed.startsWith('-')) return trimmed.slice(1);
+  if (/^[+]?[\d.]/.test(trimmed)) return `-${trimmed.replace(/^\+/, '')}`;
+  return `calc(-1 * ${trimmed})`;
+};
+
+/** Properties whose four-value form is top right bottom left */
+const boxShorthands = /^(margin|padding|inset|border-width|border-style|border-color|scroll-margin|scroll-padding)$/;
+
+/** Properties whose value is a keyword that may be `left` or `right` */
+const sideKeywordProperties = /^(text-align|text-align-last|float|clear|caption-side|justify-self|justify-items|justify-content)$/;
+
+/** Properties holding a position such as `left 20% top` */
+const positionProperties = /^(background-position|background-position-x|object-position|transform-origin|perspective-origin|mask-position)$/;
+
+/** Mirrors `a b c d` corners: top-left ↔ top-right, bottom-right ↔ bottom-left */
+const mirrorRadius = (value: string): string =>
+  value.split('/').map(part => {
+    const [a, b = a, c = a, d = b] = splitValue(part.trim());
+    return [b, a, d, c].join(' ');
+  }).join(' / ');
+
+const mirrorPosition = (value: string): string =>
+  value.split(',').map(layer => {
+    const trimmed = layer.trim();
+    if (/\b(left|right)\b/i.test(trimmed)) return swapLeftRight(trimmed);
+    // A leading percentage is measured from the left edge
+    const [x, ...rest] = splitValue(trimmed);
+    const percent = /^(-?[\d.]+)%$/.exec(x ?? '');
+    if (!percent) return trimmed;
+    return [`${parseFloat((100 - Number(percent[1])).toFixed(4))}%`, ...rest].join(' ');
+  }).join(', ');
+
+const mirrorTransform = (value: string): string =>
+  value.replace(/\b(translateX|translate|translate3d|rotate|rotateZ|skewX|skewY|skew)\(([^()]*(?:\([^()]*\)[^()]*)*)\)/gi, (match, fn: string, args: string) => {
+    const parts = splitValue(args, /,/).map(part => part.trim());
+    switch (fn.toLowerCase()) {
+      case 'translatex':
+      case 'translate':
+      case 'translate3d':
+        return `${fn}(${[negate(parts[0]), ...parts.slice(1)].join(', ')})`;
+      case 'rotate':
+      case 'rotatez':
+      case 'skewx':
+      case 'skewy':
+        return `${fn}(${negate(parts[0])})`;
+      case 'skew':
+        return `${fn}(${parts.map(negate).join(', ')})`;
+    }
+    return match;
+  });
+
+/**
+ * Mirrors one declaration horizontally. Returns undefined when it doesn't depend on direction.
+ */
+const mirrorDeclaration = (property: string, value: string): { property: string; value: string } | undefined => {
+  let mirroredProperty = property;
+  let mirroredValue = value;
+
+  // margin-left, border-top-right-radius, left, ...
+  if (/(^|-)(left|right)(-|$)/.test(property)) mirroredProperty = swapLeftRight(property);
+
+  const parts = splitValue(value);
+  if (boxShorthands.test(property) && parts.length === 4) {
+    mirroredValue = [parts[0], parts[3], parts[2], parts[1]].join(' ');
+  } else if (property === 'border-radius') {
+    mirroredValue = mirrorRadius(value);
+  } else if (sideKeywordProperties.test(property)) {
+    mirroredValue = swapLeftRight(value);
+  } else if (property === 'direction') {
+    mirroredValue = value.replace(/\b(ltr|rtl)\b/i, dir => (dir.toLowerCase() === 'ltr' ? 'rtl' : 'ltr'));
+  } else if (positionProperties.test(property)) {
+    mirroredValue = mirrorPosition(value);
+  } else if (property === 'transform') {
+    mirroredValue = mirrorTransform(value);
+  } else if (property === 'translate' && parts.length > 0) {
+    mirroredValue = [negate(parts[0]), ...parts.slice(1)].join(' ');
+  }
+
+  if (mirroredProperty === property && mirroredValue === value) return undefined;
+  return { property: mirroredProperty, value: mirroredValue };
+};
+
+const declarationText = (property: string, value: string, important: boolean): string =>
+  `${property}: ${value}${important ? ' !important' : ''}`;
+
+/**
+ * Flips direction-dependent declarations (sides, box shorthands, alignment, positions, transforms)
+ * in place, leaving the rest of the text untouched. Rules and declarations after a
+ * `/* @noflip *\/` comment are skipped.
+ */
+export const mirrorCss = (css: string): { css: string; rewrites: CssRewrite[] } => {
+  const edits: { start: number; end: number; text: string }[] = [];
+  const rewrites: CssRewrite[] = [];
+
+  const visit = (items: CssItem[], selectors: string[]) => {
+    for (const item of items) {
+      if (item.type === 'rule') {
+        if (!item.noflip) visit(item.items, [...selectors, item.prelude]);
+      } else if (item.type === 'declaration' && !item.noflip) {
+        const mirrored = mirrorDeclaration(item.property, item.value);
+        if (!mirrored) continue;
+        const text = declarationText(mirrored.property, mirrored.value, item.important);
+        edits.push({ start: item.start, end: item.end, text });
+        rewrites.push({ selectors, before: declarationText(item.property, item.value, item.important), after: text });
+      }
+    }
+  };
+  visit(parseCss(css), []);
+
+  let result = css;
+  for (const edit of edits.sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+  return { css: result, rewrites };
+};
+
+/** Collapses whitespace outside strings */
+const collapse = (str: string, tidy: (outside: string) => string): string =>
+  str
+    .split(/("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')/)
+    .map((part, i) => (i % 2 === 1 ? part : tidy(part.replace(/\s+/g, ' '))))
+    .join('')
+    .trim();
+
+const minifyPrelude = (prelude: string): string =>
+  collapse(prelude, str =>
+    prelude.startsWith('@')
+      ? str.replace(/\(\s*/g, '(').replace(/\s*\)/g, ')').replace(/\s*:\s*/g, ':').replace(/\s*,\s*/g, ',')
+      : str.replace(/\s*([,>+~])\s*/g, '$1')
+  );
+
+const minifyValue = (value: string): string => collapse(value, str => str.replace(/\s*,\s*/g, ','));
+
+/** Keeps `@noflip` working when minified CSS is mirrored later */
+const noflipMarker = (item: CssDeclaration | CssRule): string => (item.noflip ? '/*@noflip*/' : '');
+
+const serializeItems = (items: CssItem[]): string => {
+  const parts: string[] = [];
+  for (const item of items) {
+    if (item.type === 'declaration') {
+      parts.push(`${noflipMarker(item)}${item.property}:${minifyValue(item.value)}${item.important ? '!important' : ''}`);
+    } else if (item.type === 'statement') {
+      parts.push(minifyValue(item.text));
+    } else {
+      const body = serializeItems(item.items);
+      if (body) parts.push(`${noflipMarker(item)}${minifyPrelude(item.prelude)}{${body}}`);
+    }
+  }
+  // Semicolons separate declarations and statements; a block needs none after it
+  return parts.reduce((out, part, i) => (i === 0 || out.endsWith('}') ? out + part : `${out};${part}`), '');
+};
+
+/**
+ * Minifies CSS: drops comments except `@noflip` markers, collapses whitespace and removes empty rules.
+ * Strings, `calc()` expressions and the `selector` placeholder are kept intact.
+ */
+export const minifyCss = (css: string): string => serializeItems(parseCss(css));
@@ -0,0 +1,239 @@
+import { Breakpoint, ElementInfo, JsonObject, JsonValue, ResponsiveSuffix } from '../types';
+import { isJsonObject } from './elementor';
+import { isActiveSuffix, responsiveParents, splitResponsiveKey } from './responsive';
+
+/** Stands for a dimensions control with no side set, whatever its unit */
+const EMPTY_DIMENSIONS: JsonObject = { unit: 'px', top: '', right: '', bottom: '', left: '', isLinked: true };
+
+const visibilityDefaults: JsonObject = {
+  hide_desktop: '',
+  hide_tablet: '',
+  hide_mobile: ''
+};
+
+/** Advanced tab controls shared by every widget */
+const commonWidgetDefaults: JsonObject = {
+  ...visibilityDefaults,
+  _element_id: '',
+  _css_classes: '',
+  _z_index: '',
+  _position: '',
+  _flex_size: '',
+  _animation: '',
+  _background_background: '',
+  _border_border: '',
+  _offset_orientation_h: 'start',
+  _offset_orientation_v: 'start',
+  _margin: EMPTY_DIMENSIONS,
+  _padding: EMPTY_DIMENSIONS
+};
+
+const layoutElementDefaults: JsonObject = {
+  ...visibilityDefaults,
+  _element_id: '',
+  css_classes: '',
+  animation: '',
+  background_background: '',
+  border_border: '',
+  margin: EMPTY_DIMENSIONS,
+  padding: EMPTY_DIMENSIONS
+};
+
+/**
+ * Control defaults of Elementor core, keyed by `elType` for layout elements
+ * and by `widgetType` for widgets. Only controls whose default does not depend
+ * on the element's position in the tree are listed.
+ */
+export const controlDefaults: Record<string, JsonObject> = {
+  container: {
+    ...layoutElementDefaults,
+    html_tag: 'div',
+    overflow: '',
+    z_index: '',
+    background_overlay_background: ''
+  },
+  section: {
+    ...layoutElementDefaults,
+    layout: 'boxed',
+    gap: 'default',
+    height: 'default',
+    height_inner: 'default',
+    column_position: 'middle',
+    content_position: '',
+    overflow: '',
+    stretch_section: '',
+    html_tag: '',
+    z_index: ''
+  },
+  column: {
+    ...layoutElementDefaults,
+    content_position: '',
+    align: '',
+    html_tag: '',
+    z_index: ''
+  },
+  heading: {
+    header_size: 'h2',
+    size: 'default',
+    align: '',
+    blend_mode: ''
+  },
+  'text-editor': {
+    drop_cap: '',
+    text_columns: '',
+    align: ''
+  },
+  button: {
+    text: 'Click here',
+    button_type: '',
+    size: 'sm',
+    align: ''
+  },
+  image: {
+    image_size: 'large',
+    align: '',
+    caption_source: 'none',
+    link_to: 'none',
+    open_lightbox: 'default'
+  },
+  icon: {
+    view: 'default',
+    shape: 'circle',
+    align: 'center'
+  },
+  'icon-box': {
+    view: 'default',
+    shape: 'circle',
+    position: 'top',
+    title_size: 'h3'
+  },
+  'image-box': {
+    position: 'top',
+    title_size: 'h3'
+  },
+  'icon-list': {
+    view: 'traditional',
+    link_click: 'full_width'
+  },
+  divider: {
+    style: 'solid',
+    look: 'line'
+  },
+  video: {
+    video_type: 'youtube',
+    autoplay: '',
+    mute: '',
+    loop: '',
+    controls: 'yes',
+    modestbranding: '',
+    yt_privacy: '',
+    lazy_load: '',
+    show_image_overlay: '',
+    aspect_ratio: '169'
+  },
+  html: {
+    html: ''
+  }
+};
+
+/**
+ * Looks up the default of a (non-responsive) control for the given element.
+ */
+export const getControlDefault = (element: ElementInfo, control: string): JsonValue | undefined => {
+  if (element.elType !== 'widget') return controlDefaults[element.elType]?.[control];
+  const own = element.widgetType ? controlDefaults[element.widgetType] : undefined;
+  return own && control in own ? own[control] : commonWidgetDefaults[control];
+};
+
+const isEmptyDimensions = (value: JsonValue): boolean =>
+  isJsonObject(value) && ['top', 'right', 'bottom', 'left'].every(side => value[side] === '');
+
+/**
+ * A value a responsive variant stores to mean "inherit from the larger device".
+ */
+const isInheritMarker = (value: JsonValue): boolean => {
+  if (value === '' || isEmptyDimensions(value)) return true;
+  return isJsonObject(value) && value.size === '' && (!Array.isArray(value.sizes) || value.sizes.length === 0);
+};
+
+const jsonEquals = (a: JsonValue, b: JsonValue): boolean => {
+  if (a === b) return true;
+  if (Array.isArray(a)) return Array.isArray(b) && a.length === b.length && a.every((item, i) => jsonEquals(item, b[i]));
+  if (!isJsonObject(a) || !isJsonObject(b)) return false;
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => key in b && jsonEquals(a[key], b[key]));
+};
+
+const matchesDefault = (value: JsonValue, defaultValue: JsonValue): boolean =>
+  defaultValue === EMPTY_DIMENSIONS ? isEmptyDimensions(value) : jsonEquals(value, defaultValue);
+
+/**
+ * Whether a global or dynamic tag is bound to the control on any device.
+ * The plain values of such controls are stale fallbacks and must stay as they are.
+ */
+const isBound = (settings: JsonObject, base: string): boolean =>
+  [settings['__globals__'], settings['__dynamic__']].some(
+    binding => isJsonObject(binding) && Object.keys(binding).some(key => splitResponsiveKey(key).base === base && binding[key] !== '')
+  );
+
+/**
+ * The value a responsive variant falls back to without its own value:
+ * the nearest device above it that has one, else the control default.
+ */
+const inheritedValue = (
+  element: ElementInfo,
+  settings: JsonObject,
+  base: string,
+  suffix: ResponsiveSuffix,
+  breakpoints: Breakpoint[]
+): JsonValue | undefined => {
+  for (const parent of responsiveParents(suffix, breakpoints)) {
+    const inherited = settings[`${base}${parent}`];
+    if (inherited === undefined || (parent && isInheritMarker(inherited))) continue;
+    return inherited;
+  }
+  return getControlDefault(element, base);
+};
+
+/**
+ * Whether removing `key` from an element's settings leaves the rendered result unchanged
+ * because the value equals the control default. A responsive variant also needs the value
+ * it would inherit instead to be the default.
+ */
+export const isDefaultSetting = (
+  element: ElementInfo,
+  key: string,
+  value: JsonValue,
+  settings: JsonObject,
+  breakpoints: Breakpoint[]
+): boolean => {
+  const { base, suffix } = splitResponsiveKey(key);
+  if (isBound(settings, base) || !isActiveSuffix(suffix, breakpoints)) return false;
+  if (suffix && isInheritMarker(value)) return true;
+
+  const defaultValue = getControlDefault(element, base);
+  if (defaultValue === undefined || !matchesDefault(value, defaultValue)) return false;
+  if (!suffix) return true;
+
+  const inherited = inheritedValue(element, settings, base, suffix, breakpoints);
+  return inherited !== undefined && matchesDefault(inherited, defaultValue);
+};
+
+/**
+ * Whether a responsive variant only repeats what its device would inherit anyway.
+ * Variants whose inherited value is unknown are never redundant.
+ */
+export const isRedundantOverride = (
+  element: ElementInfo,
+  key: string,
+  value: JsonValue,
+  settings: JsonObject,
+  breakpoints: Breakpoint[]
+): boolean => {
+  const { base, suffix } = splitResponsiveKey(key);
+  if (!suffix || isBound(settings, base) || !isActiveSuffix(suffix, breakpoints)) return false;
+  if (isInheritMarker(value)) return true;
+
+  const inherited = inheritedValue(element, settings, base, suffix, breakpoints);
+  return inherited !== undefined && jsonEquals(value, inherited);
+};
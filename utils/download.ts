@@ -0,0 +1,12 @@
+/**
+ * Triggers a browser download of in-memory text content.
+ */
+export const downloadTextFile = (content: string, filename: string, type: string = 'application/json') => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
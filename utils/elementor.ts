@@ -0,0 +1,195 @@
+import {
+  ElementorClipboardPayload,
+  ElementorContainer,
+  ElementorDocument,
+  ElementorDocumentFormat,
+  ElementorElement,
+  ElementorElementType,
+  ElementorParseErrorCode,
+  ElementorParseIssue,
+  ElementorTemplateExport,
+  ElementorWidget,
+  JsonObject,
+  OutputFormat
+} from '../types';
+
+const ELEMENT_TYPES: ElementorElementType[] = ['container', 'section', 'column', 'widget'];
+
+export const isJsonObject = (val: unknown): val is JsonObject =>
+  val !== null && typeof val === 'object' && !Array.isArray(val);
+
+export const isElementorElement = (val: unknown): val is ElementorElement =>
+  isJsonObject(val) && typeof val.elType === 'string' && (ELEMENT_TYPES as string[]).includes(val.elType);
+
+export const isContainer = (val: unknown): val is ElementorContainer =>
+  isElementorElement(val) && val.elType === 'container';
+
+export const isWidget = (val: unknown, widgetType?: string): val is ElementorWidget =>
+  isElementorElement(val) && val.elType === 'widget' && (widgetType === undefined || val.widgetType === widgetType);
+
+export const isClipboardPayload = (val: unknown): val is ElementorClipboardPayload =>
+  isJsonObject(val) && val.type === 'elementor' && Array.isArray(val.elements);
+
+export const isTemplateExport = (val: unknown): val is ElementorTemplateExport =>
+  isJsonObject(val) && Array.isArray(val.content);
+
+/**
+ * Thrown when input does not match the Elementor document model.
+ * The message names the first problem; `issues` holds all of them.
+ */
+export class ElementorParseError extends Error {
+  readonly issues: ElementorParseIssue[];
+
+  constructor(issues: ElementorParseIssue[]) {
+    const [first] = issues;
+    const more = issues.length > 1 ? ` (+${issues.length - 1} more)` : '';
+    super(`${first.message} at ${first.path}${more}`);
+    this.name = 'ElementorParseError';
+    this.issues = issues;
+  }
+}
+
+const describe = (val: unknown): string => {
+  if (val === null) return 'null';
+  if (Array.isArray(val)) return 'array';
+  return typeof val;
+};
+
+const isStringMap = (val: unknown): boolean =>
+  isJsonObject(val) && Object.values(val).every(v => typeof v === 'string');
+
+/**
+ * Checks unknown JSON against the Elementor document model.
+ * Returns every problem found with its JSON path; an empty list means the input is a valid ElementorDocument.
+ */
+export const validateElementorDocument = (input: unknown): ElementorParseIssue[] => {
+  const issues: ElementorParseIssue[] = [];
+  const report = (code: ElementorParseErrorCode, path: string, message: string) => {
+    issues.push({ code, path, message });
+  };
+
+  const checkSettings = (val: unknown, path: string) => {
+    // Empty settings are exported as `[]` (PHP empty array)
+    if (Array.isArray(val) && val.length === 0) return;
+    if (!isJsonObject(val)) {
+      report('invalid_type', path, `Expected settings object, got ${describe(val)}`);
+      return;
+    }
+    if ('__globals__' in val && !isStringMap(val.__globals__)) {
+      report('invalid_type', `${path}.__globals__`, 'Expected __globals__ to map setting keys to global references');
+    }
+    if ('__dynamic__' in val && !isStringMap(val.__dynamic__)) {
+      report('invalid_type', `${path}.__dynamic__`, 'Expected __dynamic__ to map setting keys to dynamic tags');
+    }
+  };
+
+  const checkElements = (val: unknown, path: string) => {
+    if (!Array.isArray(val)) {
+      report('invalid_type', path, `Expected elements array, got ${describe(val)}`);
+      return;
+    }
+    val.forEach((child, i) => checkElement(child, `${path}[${i}]`));
+  };
+
+  const checkElement = (val: unknown, path: string) => {
+    if (!isJsonObject(val)) {
+      report('invalid_type', path, `Expected element object, got ${describe(val)}`);
+      return;
+    }
+    if (!('elType' in val)) {
+      report('missing_field', path, 'Element is missing "elType"');
+    } else if (typeof val.elType !== 'string' || !(ELEMENT_TYPES as string[]).includes(val.elType)) {
+      report('unknown_el_type', `${path}.elType`, `Unknown elType ${JSON.stringify(val.elType)}`);
+    }
+    if (typeof val.id !== 'string') {
+      report(val.id === undefined ? 'missing_field' : 'invalid_type', `${path}.id`, 'Element "id" must be a string');
+    }
+    if (val.elType === 'widget' && typeof val.widgetType !== 'string') {
+      report('missing_field', `${path}.widgetType`, 'Widget is missing "widgetType"');
+    }
+    if ('isInner' in val && typeof val.isInner !== 'boolean') {
+      report('invalid_type', `${path}.isInner`, `Expected isInner boolean, got ${describe(val.isInner)}`);
+    }
+    if ('settings' in val) checkSettings(val.settings, `${path}.settings`);
+    if ('elements' in val) {
+      checkElements(val.elements, `${path}.elements`);
+    } else if (val.elType !== 'widget') {
+      report('missing_field', `${path}.elements`, 'Element is missing "elements"');
+    }
+  };
+
+  if (Array.isArray(input)) {
+    checkElements(input, '$');
+  } else if (isClipboardPayload(input)) {
+    checkElements(input.elements, '$.elements');
+  } else if (isTemplateExport(input)) {
+    checkElements(input.content, '$.content');
+    if ('page_settings' in input) checkSettings(input.page_settings, '$.page_settings');
+  } else if (isJsonObject(input) && 'elType' in input) {
+    checkElement(input, '$');
+  } else {
+    report(
+      'unknown_envelope',
+      '$',
+      'Input is not an Elementor element, elements array, clipboard payload or template export'
+    );
+  }
+
+  return issues;
+};
+
+/**
+ * Narrows unknown JSON to an ElementorDocument, throwing ElementorParseError when it does not match.
+ */
+export const parseElementorDocument = (input: unknown): ElementorDocument => {
+  const issues = validateElementorDocument(input);
+  if (issues.length > 0) throw new ElementorParseError(issues);
+  return input as ElementorDocument;
+};
+
+export const documentFormatLabels: Record<ElementorDocumentFormat, string> = {
+  elements: 'Elements array',
+  element: 'Single element',
+  clipboard: 'Clipboard payload',
+  template: 'Template export'
+};
+
+/**
+ * Names the envelope a parsed document came in.
+ */
+export const detectDocumentFormat = (doc: ElementorDocument): ElementorDocumentFormat => {
+  if (Array.isArray(doc)) return 'elements';
+  if (isClipboardPayload(doc)) return 'clipboard';
+  if (isTemplateExport(doc)) return 'template';
+  return 'element';
+};
+
+/**
+ * The element tree inside any envelope; a single element becomes a one-item array.
+ */
+export const getDocumentElements = (doc: ElementorDocument): ElementorElement[] => {
+  if (Array.isArray(doc)) return doc;
+  if (isClipboardPayload(doc)) return doc.elements;
+  if (isTemplateExport(doc)) return doc.content;
+  return [doc];
+};
+
+/**
+ * Wraps a document's elements in another envelope. Metadata of the source envelope
+ * (`siteurl`, template title and page settings) is kept when the format stays the same.
+ */
+export const convertDocumentFormat = (doc: ElementorDocument, format: OutputFormat): ElementorDocument => {
+  if (format === 'auto') return doc;
+  const elements = getDocumentElements(doc);
+  switch (format) {
+    case 'elements':
+      return elements;
+    case 'clipboard':
+      // Elementor only pastes payloads whose `type` is "elementor"; `siteurl` is used to import media
+      return { type: 'elementor', siteurl: isClipboardPayload(doc) ? doc.siteurl : '', elements };
+    case 'template':
+      return isTemplateExport(doc)
+        ? doc
+        : { version: '0.4', title: 'Elementor Compressor Export', type: 'page', content: elements, page_settings: [] };
+  }
+};
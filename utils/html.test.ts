@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { HtmlCleaningOptions } from '../types';
+import { cleanHtml, defaultAllowedHtmlAttributes, defaultAllowedHtmlTags } from './html';
+
+const options: HtmlCleaningOptions = { allowedTags: defaultAllowedHtmlTags, allowedAttributes: defaultAllowedHtmlAttributes };
+
+describe('cleanHtml', () => {
+  it('strips word processor leftovers', () => {
+    const pasted =
+      '<!--StartFragment--><p class="MsoNormal" style="margin:0"><span style="font-family:Calibri"><font color="red">Hello</font></span>\n   <b>world</b></p><p>&nbsp;</p><p><o:p></o:p></p>';
+    expect(cleanHtml(pasted, options, 'keep')).toBe('<p>Hello <b>world</b></p>');
+  });
+
+  it('drops scripts and styles with their content', () => {
+    expect(cleanHtml('<style>p{color:red}</style><p>a<script>if (a > b) x()</script></p>', options, 'keep')).toBe('<p>a</p>');
+  });
+
+  it('keeps allowed attributes and a > inside quotes', () => {
+    expect(cleanHtml('<a href="/x" title="a > b" onclick="x()" class="btn">link</a>', options, 'keep')).toBe(
+      '<a href="/x" title="a > b">link</a>'
+    );
+  });
+
+  it('keeps whitespace inside pre', () => {
+    expect(cleanHtml('<p>a</p>\n<pre>  x\n    y</pre>\n<p>b</p>', options, 'keep')).toBe('<p>a</p><pre>  x\n    y</pre><p>b</p>');
+  });
+
+  it('mirrors text-align and drops dir for a target direction', () => {
+    const html = '<p dir="ltr" style="text-align: left">a</p><p style="text-align:right;color:red">b</p>';
+    expect(cleanHtml(html, options, 'rtl')).toBe('<p>a</p><p style="text-align: left">b</p>');
+    expect(cleanHtml(html, options, 'keep')).toBe('<p dir="ltr" style="text-align: left">a</p><p style="text-align: right">b</p>');
+  });
+});
@@ -0,0 +1,146 @@
+import { DirectionMode, HtmlCleaningOptions } from '../types';
+
+/** Tags dropped together with everything inside them */
+const droppedTags = ['script', 'style', 'head', 'title', 'xml', 'meta', 'link', 'o:p'];
+
+const voidTags = ['br', 'hr', 'img', 'wbr', 'col', 'source', 'meta', 'link'];
+
+/** Tags around which whitespace isn't rendered; `pre` is only trimmed on the outside */
+const blockTags = /^(p|div|h[1-6]|ul|ol|li|blockquote|table|thead|tbody|tfoot|tr|th|td|hr|br|figure|figcaption)$/;
+
+export const defaultAllowedHtmlTags = [
+  'p', 'br', 'strong', 'b', 'em', 'i', 'u', 's', 'sub', 'sup', 'a', 'ul', 'ol', 'li',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'pre', 'code', 'hr', 'img',
+  'table', 'thead', 'tbody', 'tr', 'th', 'td'
+];
+
+export const defaultAllowedHtmlAttributes = ['href', 'target', 'rel', 'src', 'alt', 'title', 'width', 'height', 'colspan', 'rowspan'];
+
+export interface ParsedHtmlTag {
+  name: string;
+  closing: boolean;
+  selfClosing: boolean;
+  attributes: [string, string | undefined][];
+}
+
+export const parseHtmlTag = (tag: string): ParsedHtmlTag | undefined => {
+  const match = /^<(\/?)([a-zA-Z][\w:-]*)([\s\S]*?)(\/?)>$/.exec(tag);
+  if (!match) return undefined;
+  const attributes: [string, string | undefined][] = [];
+  const attributePattern = /([^\s=\/>"']+)(?:\s*=\s*("[^"]*"|'[^']*'|[^\s>]+))?/g;
+  let attribute: RegExpExecArray | null;
+  while ((attribute = attributePattern.exec(match[3]))) {
+    const raw = attribute[2];
+    attributes.push([attribute[1].toLowerCase(), raw === undefined ? undefined : raw.replace(/^(["'])([\s\S]*)\1$/, '$2')]);
+  }
+  return { name: match[2].toLowerCase(), closing: match[1] === '/', selfClosing: match[4] === '/', attributes };
+};
+
+/** Writes a start tag back, with double-quoted attribute values */
+export const serializeHtmlTag = (name: string, attributes: [string, string | undefined][]): string =>
+  `<${[name, ...attributes.map(([key, value]) => (value === undefined ? key : `${key}="${value.replace(/"/g, '&quot;')}"`))].join(' ')}>`;
+
+/**
+ * Rewrites `text-align` for the target direction the way the alignment controls are mirrored:
+ * `left` and `right` swap, and the side text starts on anyway is dropped.
+ */
+const alignForDirection = (align: string, direction: DirectionMode): string | undefined => {
+  const value = align.trim().toLowerCase();
+  if (direction === 'keep') return value;
+  const mirrored = value === 'left' ? 'right' : value === 'right' ? 'left' : value;
+  const startSide = direction === 'rtl' ? 'right' : 'left';
+  return mirrored === startSide || mirrored === 'start' ? undefined : mirrored;
+};
+
+const cleanStyle = (style: string, keepAll: boolean, direction: DirectionMode): string => {
+  const declarations: string[] = [];
+  for (const declaration of style.split(';')) {
+    const colon = declaration.indexOf(':');
+    if (colon === -1) continue;
+    const property = declaration.slice(0, colon).trim().toLowerCase();
+    const value = declaration.slice(colon + 1).trim();
+    if (property === 'text-align') {
+      const align = alignForDirection(value, direction);
+      if (align) declarations.push(`text-align: ${align}`);
+    } else if (property === 'direction' && direction !== 'keep') {
+      continue;
+    } else if (keepAll && property && value) {
+      declarations.push(`${property}: ${value}`);
+    }
+  }
+  return declarations.join('; ');
+};
+
+const renderTag = (tag: ParsedHtmlTag, options: HtmlCleaningOptions, direction: DirectionMode): string => {
+  if (tag.closing) return `</${tag.name}>`;
+  const attributes: [string, string | undefined][] = [];
+  for (const [name, value] of tag.attributes) {
+    let kept = value;
+    if (name === 'style') {
+      kept = cleanStyle(value ?? '', options.allowedAttributes.includes('style'), direction) || undefined;
+      if (kept === undefined) continue;
+    } else if (name === 'dir') {
+      // The text inherits the page direction once it's mirrored
+      if (direction !== 'keep' && /^(ltr|rtl)$/i.test(value ?? '')) continue;
+    } else if (!options.allowedAttributes.includes(name)) {
+      continue;
+    }
+    attributes.push([name, kept]);
+  }
+  return serializeHtmlTag(tag.name, attributes);
+};
+
+/** Elements left with nothing but whitespace, `&nbsp;` or line breaks */
+const emptyElementPattern = /<(p|div|span|strong|b|em|i|u|s|font|h[1-6]|li|blockquote)(\s[^>]*)?>(?:\s|&nbsp;|&#160;|\u00a0|<br\s*\/?>)*<\/\1>/gi;
+
+/**
+ * Cleans HTML pasted from word processors: drops comments, scripts and styles, unwraps tags
+ * that aren't allowed, strips attributes that aren't allowed, removes empty paragraphs and
+ * collapses whitespace. With a target direction, `dir` attributes are dropped and `text-align`
+ * in `style` is mirrored to match it.
+ */
+export const cleanHtml = (html: string, options: HtmlCleaningOptions, direction: DirectionMode): string => {
+  const allowedTags = options.allowedTags.map(tag => tag.toLowerCase());
+  const parts = html.split(/(<!--[\s\S]*?-->|<\/?[a-zA-Z](?:"[^"]*"|'[^']*'|[^'">])*>)/);
+  let output = '';
+  let dropping: string | undefined;
+  let preDepth = 0;
+
+  parts.forEach((part, i) => {
+    // Even parts are text, odd parts are markup
+    if (i % 2 === 0) {
+      if (dropping || !part) return;
+      output += preDepth > 0 ? part : part.replace(/\s+/g, ' ');
+      return;
+    }
+    if (part.startsWith('<!--')) return;
+
+    const tag = parseHtmlTag(part);
+    if (!tag) return;
+    if (dropping) {
+      if (tag.closing && tag.name === dropping) dropping = undefined;
+      return;
+    }
+    if (droppedTags.includes(tag.name)) {
+      if (!tag.closing && !tag.selfClosing && !voidTags.includes(tag.name)) dropping = tag.name;
+      return;
+    }
+    if (!allowedTags.includes(tag.name)) return;
+    if (tag.name === 'pre') preDepth = Math.max(0, preDepth + (tag.closing ? -1 : 1));
+    if (tag.closing && voidTags.includes(tag.name)) return;
+    output += renderTag(tag, options, direction);
+  });
+
+  // Removing an empty element can leave its parent empty
+  let previous: string;
+  do {
+    previous = output;
+    output = output.replace(emptyElementPattern, '');
+  } while (output !== previous);
+
+  return output
+    .replace(/\s*(<\/?([a-z][\w:-]*)\b[^>]*>)\s*/gi, (match, tag: string, name: string) => (blockTags.test(name.toLowerCase()) ? tag : match))
+    .replace(/\s*(<pre\b[^>]*>)/gi, '$1')
+    .replace(/(<\/pre>)\s*/gi, '$1')
+    .trim();
+};
@@ -0,0 +1,48 @@
+import { JsonValue } from '../types';
+import { isJsonObject } from './elementor';
+
+/**
+ * Reorders the keys of `modified` to follow the key order of `original`, recursively.
+ * Keys that only exist in `modified` keep their relative order after the shared ones.
+ */
+const alignKeys = (original: JsonValue, modified: JsonValue): JsonValue => {
+  if (Array.isArray(original) && Array.isArray(modified)) {
+    return modified.map((item, i) => (i < original.length ? alignKeys(original[i], item) : item));
+  }
+  if (isJsonObject(original) && isJsonObject(modified)) {
+    const aligned: Record<string, JsonValue> = {};
+    for (const key of Object.keys(original)) {
+      if (key in modified) aligned[key] = alignKeys(original[key], modified[key]);
+    }
+    for (const key of Object.keys(modified)) {
+      if (!(key in aligned)) aligned[key] = modified[key];
+    }
+    return aligned;
+  }
+  return modified;
+};
+
+/**
+ * Pretty-prints both sides of a diff with the same formatting and key order,
+ * so the diff only shows real value changes. Invalid JSON is passed through as-is.
+ */
+export const prepareJsonDiff = (original: string, modified: string): { original: string; modified: string } => {
+  let originalValue: JsonValue;
+  try {
+    originalValue = JSON.parse(original);
+  } catch (e) {
+    return { original, modified };
+  }
+
+  let modifiedValue: JsonValue;
+  try {
+    modifiedValue = JSON.parse(modified);
+  } catch (e) {
+    return { original: JSON.stringify(originalValue, null, 2), modified };
+  }
+
+  return {
+    original: JSON.stringify(originalValue, null, 2),
+    modified: JSON.stringify(alignKeys(originalValue, modifiedValue), null, 2)
+  };
+};
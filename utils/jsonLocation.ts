@@ -0,0 +1,106 @@
+import { childPath } from './jsonPath';
+
+/** Character offsets of a value in JSON text; `keyStart` is where its property name begins */
+export interface JsonRange {
+  start: number;
+  end: number;
+  keyStart?: number;
+}
+
+const isWhitespace = (ch: string): boolean => ch === ' ' || ch === '\n' || ch === '\r' || ch === '\t';
+
+/**
+ * Maps the JSONPath of every value in a JSON text to its location, with paths built like `childPath`.
+ * Scanning stops at the first syntax error; values located up to there are returned.
+ */
+export const locateJsonPaths = (text: string): Map<string, JsonRange> => {
+  const ranges = new Map<string, JsonRange>();
+  let i = 0;
+
+  const skipWhitespace = () => {
+    while (i < text.length && isWhitespace(text[i])) i++;
+  };
+
+  const expect = (ch: string) => {
+    skipWhitespace();
+    if (text[i] !== ch) throw new SyntaxError(`Expected "${ch}" at ${i}`);
+    i++;
+  };
+
+  const readString = (): string => {
+    if (text[i] !== '"') throw new SyntaxError(`Expected string at ${i}`);
+    const start = i++;
+    while (i < text.length && text[i] !== '"') i += text[i] === '\\' ? 2 : 1;
+    if (i >= text.length) throw new SyntaxError('Unterminated string');
+    i++;
+    return JSON.parse(text.slice(start, i));
+  };
+
+  const readValue = (path: string, keyStart?: number) => {
+    skipWhitespace();
+    const start = i;
+    const ch = text[i];
+
+    if (ch === '{') {
+      i++;
+      skipWhitespace();
+      if (text[i] === '}') {
+        i++;
+      } else {
+        for (;;) {
+          skipWhitespace();
+          const propertyStart = i;
+          const key = readString();
+          expect(':');
+          readValue(childPath(path, key), propertyStart);
+          skipWhitespace();
+          if (text[i] === ',') { i++; continue; }
+          expect('}');
+          break;
+        }
+      }
+    } else if (ch === '[') {
+      i++;
+      skipWhitespace();
+      if (text[i] === ']') {
+        i++;
+      } else {
+        for (let index = 0; ; index++) {
+          readValue(childPath(path, index));
+          skipWhitespace();
+          if (text[i] === ',') { i++; continue; }
+          expect(']');
+          break;
+        }
+      }
+    } else if (ch === '"') {
+      readString();
+    } else {
+      while (i < text.length && !isWhitespace(text[i]) && !',]}'.includes(text[i])) i++;
+      if (i === start) throw new SyntaxError(`Unexpected "${ch ?? 'end of input'}" at ${i}`);
+    }
+
+    ranges.set(path, keyStart === undefined ? { start, end: i } : { start, end: i, keyStart });
+  };
+
+  try {
+    readValue('$');
+  } catch {
+    // Keep what was located before the syntax error
+  }
+  return ranges;
+};
+
+/**
+ * Location of a path, or of its closest located ancestor (e.g. the element for a missing field).
+ */
+export const findJsonRange = (ranges: Map<string, JsonRange>, path: string): JsonRange | undefined => {
+  let current = path;
+  for (;;) {
+    const range = ranges.get(current);
+    if (range) return range;
+    const parent = current.replace(/(\.[A-Za-z_$][\w$]*|\[[^\]]*\])$/, '');
+    if (parent === current) return undefined;
+    current = parent;
+  }
+};
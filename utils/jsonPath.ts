@@ -0,0 +1,58 @@
+/**
+ * Appends a key or index to a JSONPath.
+ */
+export const childPath = (path: string, key: string | number): string => {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+};
+
+const escapeRegExp = (str: string): string => str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const ANY_SEGMENT = '(?:\\.[A-Za-z_$][\\w$]*|\\[[^\\]]+\\])';
+
+/**
+ * Compiles a JSONPath pattern into a matcher for paths built by `childPath`.
+ * Supports `$`, `.key`, `["key"]`, `[0]`, wildcards `.*` / `[*]` and recursive descent `..key`.
+ * Throws on syntax errors.
+ */
+export const compileJsonPath = (pattern: string): ((path: string) => boolean) => {
+  const src = pattern.trim();
+  if (!src.startsWith('$')) throw new Error(`JSONPath must start with "$": ${pattern}`);
+
+  let re = '^\\$';
+  let i = 1;
+  while (i < src.length) {
+    if (src.startsWith('..', i)) {
+      re += `${ANY_SEGMENT}*`;
+      i += 1; // leave one "." for the following segment
+      continue;
+    }
+    if (src[i] === '.') {
+      const match = /^(\*|[A-Za-z_$][\w$-]*)/.exec(src.slice(i + 1));
+      if (!match) throw new Error(`Invalid JSONPath segment at ${i}: ${pattern}`);
+      re += match[1] === '*' ? ANY_SEGMENT : escapeRegExp(childPath('', match[1]));
+      i += 1 + match[1].length;
+      continue;
+    }
+    if (src[i] === '[') {
+      const end = src.indexOf(']', i);
+      if (end === -1) throw new Error(`Unclosed "[" in JSONPath: ${pattern}`);
+      const inner = src.slice(i + 1, end).trim();
+      if (inner === '*') {
+        re += ANY_SEGMENT;
+      } else if (/^\d+$/.test(inner)) {
+        re += escapeRegExp(`[${inner}]`);
+      } else if (/^(['"]).*\1$/.test(inner)) {
+        re += escapeRegExp(childPath('', inner.slice(1, -1)));
+      } else {
+        throw new Error(`Invalid JSONPath index "${inner}": ${pattern}`);
+      }
+      i = end + 1;
+      continue;
+    }
+    throw new Error(`Unexpected "${src[i]}" in JSONPath: ${pattern}`);
+  }
+
+  const regex = new RegExp(`${re}$`);
+  return (path: string) => regex.test(path);
+};
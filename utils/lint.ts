@@ -0,0 +1,137 @@
+import { JsonObject, JsonValue, LintCode, LintProblem, LintSeverity } from '../types';
+import { isClipboardPayload, isJsonObject, isTemplateExport, validateElementorDocument } from './elementor';
+import { childPath } from './jsonPath';
+
+/** Widgets of Elementor and Elementor Pro; anything else is reported as unknown */
+const knownWidgetTypes = new Set([
+  // Elementor
+  'heading', 'image', 'text-editor', 'video', 'button', 'divider', 'spacer', 'google_maps', 'icon',
+  'image-box', 'icon-box', 'star-rating', 'rating', 'image-carousel', 'image-gallery', 'basic-gallery',
+  'icon-list', 'counter', 'progress', 'testimonial', 'tabs', 'accordion', 'toggle', 'social-icons',
+  'alert', 'audio', 'shortcode', 'html', 'menu-anchor', 'sidebar', 'read-more', 'text-path',
+  'nested-tabs', 'nested-accordion', 'link-in-bio', 'contact-buttons', 'floating-bars-var-1',
+  // Elementor Pro
+  'form', 'login', 'posts', 'portfolio', 'gallery', 'slides', 'nav-menu', 'mega-menu', 'animated-headline',
+  'price-list', 'price-table', 'flip-box', 'call-to-action', 'media-carousel', 'testimonial-carousel',
+  'reviews', 'countdown', 'share-buttons', 'blockquote', 'template', 'sitemap', 'search-form', 'search',
+  'table-of-contents', 'lottie', 'hotspot', 'code-highlight', 'video-playlist', 'paypal-button',
+  'stripe-button', 'progress-tracker', 'loop-grid', 'loop-carousel', 'nested-carousel', 'off-canvas',
+  'taxonomy-filter', 'author-box', 'post-info', 'post-navigation', 'post-comments', 'archive-posts',
+  'breadcrumbs'
+]);
+
+/** Families of widgets registered per plugin, e.g. `wp-widget-calendar` or `theme-post-title` */
+const knownWidgetPrefixes = ['wp-widget-', 'theme-', 'woocommerce-', 'wc-', 'facebook-'];
+
+/** Widgets whose children are containers edited in place */
+const isNestedWidget = (widgetType: string): boolean =>
+  widgetType.startsWith('nested-') || ['mega-menu', 'off-canvas', 'link-in-bio'].includes(widgetType);
+
+const isKnownWidgetType = (widgetType: string): boolean =>
+  knownWidgetTypes.has(widgetType) || knownWidgetPrefixes.some(prefix => widgetType.startsWith(prefix));
+
+/** Element types allowed directly inside each element type */
+const allowedChildren: Record<string, string[]> = {
+  section: ['column'],
+  column: ['widget', 'section'],
+  container: ['container', 'widget'],
+  widget: ['container']
+};
+
+const sides = ['top', 'right', 'bottom', 'left'];
+
+const isSizeValue = (val: JsonValue | undefined): boolean => typeof val === 'number' || typeof val === 'string';
+
+/**
+ * Describes what is wrong with a slider or dimensions value, or undefined when it is well-formed.
+ */
+const sizeProblem = (val: JsonObject): string | undefined => {
+  if ('unit' in val && typeof val.unit !== 'string') return 'Size "unit" must be a string';
+  if ('sizes' in val && !Array.isArray(val.sizes)) return 'Size "sizes" must be an array';
+  if ('size' in val && !isSizeValue(val.size)) return 'Size "size" must be a number or string';
+  const present = sides.filter(side => side in val);
+  if (present.length > 0) {
+    if (present.length < sides.length) return `Dimensions are missing ${sides.filter(side => !(side in val)).join(', ')}`;
+    if (present.some(side => !isSizeValue(val[side]))) return 'Dimension sides must be numbers or strings';
+  }
+};
+
+/** Objects that look like a slider (`unit` + `size`/`sizes`) or dimensions (`unit` + sides) control value */
+const isSizeLike = (val: JsonObject): boolean =>
+  'unit' in val && ('size' in val || 'sizes' in val || sides.some(side => side in val));
+
+/**
+ * Checks a document for structural problems Elementor would choke on later:
+ * everything `validateElementorDocument` reports, plus duplicate ids, invalid nesting,
+ * `isInner` flags that don't match the depth, unknown widget types and malformed size values.
+ */
+export const lintElementorDocument = (input: unknown): LintProblem[] => {
+  const problems: LintProblem[] = validateElementorDocument(input).map(issue => ({ ...issue, severity: 'error' }));
+  if (problems.some(problem => problem.code === 'unknown_envelope')) return problems;
+
+  const report = (severity: LintSeverity, code: LintCode, path: string, message: string) => {
+    problems.push({ severity, code, path, message });
+  };
+  const seenIds = new Map<string, string>();
+
+  const checkSettings = (val: JsonValue, path: string) => {
+    if (Array.isArray(val)) {
+      val.forEach((item, i) => checkSettings(item, childPath(path, i)));
+    } else if (isJsonObject(val)) {
+      const problem = isSizeLike(val) ? sizeProblem(val) : undefined;
+      if (problem) report('warning', 'malformed_size', path, problem);
+      for (const [key, value] of Object.entries(val)) checkSettings(value, childPath(path, key));
+    }
+  };
+
+  /**
+   * @param level container depth as counted by the compressor (1: Section, 2: Container, 3+: Inner)
+   * @param parentType elType of the parent element, undefined at the top level
+   */
+  const checkElement = (val: JsonValue, path: string, level: number, parentType?: string, parentWidget?: string) => {
+    if (!isJsonObject(val) || typeof val.elType !== 'string') return;
+    const { elType } = val;
+
+    if (typeof val.id === 'string') {
+      const first = seenIds.get(val.id);
+      if (first) report('error', 'duplicate_id', childPath(path, 'id'), `Duplicate id "${val.id}", first used at ${first}`);
+      else seenIds.set(val.id, path);
+    }
+
+    if (parentType && allowedChildren[parentType] && !allowedChildren[parentType].includes(elType)) {
+      report('error', 'invalid_nesting', childPath(path, 'elType'), `A ${elType} can't be placed inside a ${parentType}`);
+    } else if (parentWidget && !isNestedWidget(parentWidget)) {
+      report('warning', 'invalid_nesting', path, `Widget "${parentWidget}" does not hold child elements`);
+    }
+
+    const nextLevel = elType === 'container' ? level + 1 : level;
+    const isInner = val.isInner === true;
+    if (elType === 'container' && isInner !== nextLevel > 1) {
+      report('warning', 'is_inner_mismatch', childPath(path, 'isInner'), `Container at depth ${nextLevel} should have isInner ${nextLevel > 1}`);
+    } else if (elType === 'section' && isInner !== (parentType === 'column')) {
+      report('warning', 'is_inner_mismatch', childPath(path, 'isInner'), `Section ${parentType === 'column' ? 'inside' : 'outside'} a column should have isInner ${parentType === 'column'}`);
+    }
+
+    const widgetType = elType === 'widget' && typeof val.widgetType === 'string' ? val.widgetType : undefined;
+    if (widgetType && !isKnownWidgetType(widgetType)) {
+      report('warning', 'unknown_widget_type', childPath(path, 'widgetType'), `Unknown widget type "${widgetType}"; it needs a plugin on the target site`);
+    }
+
+    if (val.settings !== undefined) checkSettings(val.settings, childPath(path, 'settings'));
+    if (Array.isArray(val.elements)) {
+      const elementsPath = childPath(path, 'elements');
+      val.elements.forEach((child, i) => checkElement(child, childPath(elementsPath, i), nextLevel, elType, widgetType));
+    }
+  };
+
+  const checkElements = (val: JsonValue, path: string) => {
+    if (Array.isArray(val)) val.forEach((item, i) => checkElement(item, childPath(path, i), 0));
+  };
+
+  if (Array.isArray(input)) checkElements(input, '$');
+  else if (isClipboardPayload(input)) checkElements(input.elements as unknown as JsonValue, '$.elements');
+  else if (isTemplateExport(input)) checkElements(input.content as unknown as JsonValue, '$.content');
+  else if (isJsonObject(input)) checkElement(input, '$', 0);
+
+  return problems;
+};
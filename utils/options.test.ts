@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { defaultOptions, mergeOptions } from './options';
+
+describe('mergeOptions', () => {
+  it('fills everything missing from the defaults', () => {
+    expect(mergeOptions({})).toEqual(defaultOptions);
+    expect(mergeOptions(null as any)).toEqual(defaultOptions);
+  });
+
+  it('maps legacy boolean toggles onto their rules', () => {
+    const options = mergeOptions({ removeMargins: false, autoRename: false, removeMotionFX: true } as any);
+    expect(options.rules).toMatchObject({ 'remove-margins': false, 'auto-rename': false, 'remove-motion-fx': true });
+    expect(options).not.toHaveProperty('removeMargins');
+  });
+
+  it('maps the old rtlize toggle onto direction', () => {
+    expect(mergeOptions({ rtlize: false } as any).direction).toBe('keep');
+    expect(mergeOptions({ rules: { rtlize: true } } as any).direction).toBe('rtl');
+    expect(mergeOptions({ rtlize: false, direction: 'ltr' } as any).direction).toBe('ltr');
+  });
+
+  it('drops unknown keys and values of the wrong type', () => {
+    const options = mergeOptions({
+      direction: 'sideways',
+      autoFormatOnPaste: 'yes',
+      breakpoints: ['laptop', 'watch'],
+      textNormalization: { digits: 'roman', zwnj: false },
+      htmlCleaning: { allowedTags: 'p', allowedAttributes: ['href'] },
+      motherPadding: { tablet: { top: 5, left: {} } },
+      customRules: [{ id: 'x' }],
+      rules: { 'no-such-rule': true, sanitize: 'yes' },
+      somethingElse: 1
+    } as any);
+    expect(options.direction).toBe(defaultOptions.direction);
+    expect(options.autoFormatOnPaste).toBe(defaultOptions.autoFormatOnPaste);
+    expect(options.breakpoints).toEqual(['desktop', 'laptop', 'tablet', 'mobile']);
+    expect(options.textNormalization).toEqual({ ...defaultOptions.textNormalization, zwnj: false });
+    expect(options.htmlCleaning).toEqual({ allowedTags: defaultOptions.htmlCleaning.allowedTags, allowedAttributes: ['href'] });
+    expect(options.motherPadding.tablet).toEqual({ top: '5', right: '0', bottom: '0', left: '0' });
+    expect(options.customRules).toEqual([]);
+    expect(options.rules).toEqual(defaultOptions.rules);
+    expect(options).not.toHaveProperty('somethingElse');
+  });
+
+  it('merges over a base instead of the defaults', () => {
+    const base = mergeOptions({ direction: 'ltr', rules: { 'clean-html': true } });
+    const options = mergeOptions({ rules: { sanitize: true } }, base);
+    expect(options.direction).toBe('ltr');
+    expect(options.rules).toMatchObject({ 'clean-html': true, sanitize: true });
+  });
+});
@@ -0,0 +1,177 @@
+import {
+  Breakpoint,
+  CompressorOptions,
+  CompressorRuleId,
+  CustomRule,
+  CustomRuleAction,
+  DigitStyle,
+  DirectionMode,
+  DevicePadding,
+  HtmlCleaningOptions,
+  OutputEncoding,
+  OutputFormat,
+  PaddingValues,
+  PageSettingsPolicy,
+  TextNormalizationOptions
+} from '../types';
+import { defaultAllowedHtmlAttributes, defaultAllowedHtmlTags } from './html';
+import { BREAKPOINTS, DEFAULT_BREAKPOINTS, activeBreakpoints } from './responsive';
+import { ruleRegistry } from './rules';
+
+export const defaultPadding: PaddingValues = { top: '0', right: '0', bottom: '0', left: '0' };
+
+export const defaultDevicePadding: DevicePadding = {
+  desktop: { ...defaultPadding },
+  tablet: { ...defaultPadding },
+  mobile: { ...defaultPadding }
+};
+
+export const defaultOptions: CompressorOptions = {
+  direction: 'rtl',
+  breakpoints: [...DEFAULT_BREAKPOINTS],
+  pageSettings: 'clean',
+  outputFormat: 'auto',
+  outputEncoding: 'json',
+  postId: '',
+  rules: Object.fromEntries(ruleRegistry.map(rule => [rule.id, rule.defaultEnabled])),
+  customRules: [],
+  textNormalization: { characters: true, digits: 'persian', zwnj: true },
+  htmlCleaning: { allowedTags: [...defaultAllowedHtmlTags], allowedAttributes: [...defaultAllowedHtmlAttributes] },
+  strictSanitize: false,
+  autoFormatOnPaste: true,
+  autoConvertOnPaste: true,
+  motherPadding: { ...defaultDevicePadding },
+  level2Padding: { ...defaultDevicePadding },
+  level3Padding: { ...defaultDevicePadding }
+};
+
+/** Boolean options that became rule toggles when the rule registry was introduced. */
+const legacyRuleOptions: Record<string, CompressorRuleId> = {
+  removeMotionFX: 'remove-motion-fx',
+  autoRename: 'auto-rename',
+  removeMargins: 'remove-margins',
+  removeLevel2Padding: 'remove-level2-padding',
+  removeLevel3Padding: 'remove-level3-padding',
+  applyMotherPadding: 'apply-mother-padding',
+  applyLevel2Padding: 'apply-level2-padding',
+  applyLevel3Padding: 'apply-level3-padding'
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T =>
+  (values as readonly unknown[]).includes(value);
+
+const isRuleId = (id: string): id is CompressorRuleId => ruleRegistry.some(rule => rule.id === id);
+
+const mergePadding = (base: PaddingValues, value: Record<string, unknown>): PaddingValues => {
+  const merged: PaddingValues = { ...defaultPadding, ...base };
+  for (const side of Object.keys(defaultPadding) as (keyof PaddingValues)[]) {
+    const sideValue = value[side];
+    if (typeof sideValue === 'string' || typeof sideValue === 'number') merged[side] = String(sideValue);
+  }
+  return merged;
+};
+
+const mergeDevicePadding = (base: DevicePadding, value: unknown): DevicePadding => {
+  const merged: DevicePadding = { ...base };
+  if (!isObject(value)) return merged;
+  for (const breakpoint of BREAKPOINTS) {
+    const padding = value[breakpoint];
+    if (isObject(padding)) merged[breakpoint] = mergePadding(base[breakpoint] ?? defaultPadding, padding);
+  }
+  return merged;
+};
+
+const customRuleActions: CustomRuleAction['type'][] = ['remove', 'set', 'rename', 'replace'];
+
+/** Drops custom rules too malformed for the rule engine or the editor to handle */
+const isCustomRule = (value: unknown): value is CustomRule =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  typeof value.enabled === 'boolean' &&
+  isObject(value.match) &&
+  (value.match.target === 'key' || value.match.target === 'path') &&
+  typeof value.match.pattern === 'string' &&
+  isObject(value.action) &&
+  isOneOf(customRuleActions, value.action.type);
+
+const mergeBreakpoints = (value: unknown, base: Breakpoint[]): Breakpoint[] =>
+  Array.isArray(value) ? activeBreakpoints(value.filter((bp): bp is Breakpoint => isOneOf(BREAKPOINTS, bp))) : base;
+
+export const directionModes: DirectionMode[] = ['keep', 'rtl', 'ltr'];
+
+export const pageSettingsPolicies: PageSettingsPolicy[] = ['keep', 'clean', 'remove'];
+
+export const outputFormats: OutputFormat[] = ['auto', 'elements', 'clipboard', 'template'];
+
+export const outputEncodings: OutputEncoding[] = ['json', 'postmeta', 'wp-cli'];
+
+export const digitStyles: DigitStyle[] = ['keep', 'persian', 'arabic', 'latin'];
+
+const mergeTextNormalization = (base: TextNormalizationOptions, value: unknown): TextNormalizationOptions => {
+  if (!isObject(value)) return { ...base };
+  return {
+    characters: typeof value.characters === 'boolean' ? value.characters : base.characters,
+    digits: isOneOf(digitStyles, value.digits) ? value.digits : base.digits,
+    zwnj: typeof value.zwnj === 'boolean' ? value.zwnj : base.zwnj
+  };
+};
+
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const mergeHtmlCleaning = (base: HtmlCleaningOptions, value: unknown): HtmlCleaningOptions => {
+  if (!isObject(value)) return { allowedTags: [...base.allowedTags], allowedAttributes: [...base.allowedAttributes] };
+  return {
+    allowedTags: isStringList(value.allowedTags) ? value.allowedTags : [...base.allowedTags],
+    allowedAttributes: isStringList(value.allowedAttributes) ? value.allowedAttributes : [...base.allowedAttributes]
+  };
+};
+
+/**
+ * Merges a partial options object (e.g. from a config file or old saved settings) over the defaults.
+ * Legacy boolean toggles such as `removeMargins: false` are mapped onto their rules,
+ * and the old `rtlize` toggle (top level or in `rules`) onto `direction`.
+ * Unknown keys and values of the wrong type are dropped, so the result always has the current shape.
+ */
+export const mergeOptions = (partial: Partial<CompressorOptions>, base: CompressorOptions = defaultOptions): CompressorOptions => {
+  const input: Record<string, unknown> = isObject(partial) ? partial : {};
+  const rules = { ...base.rules };
+  let direction = base.direction;
+
+  for (const [key, value] of Object.entries(input)) {
+    const ruleId = legacyRuleOptions[key];
+    if (typeof value !== 'boolean') continue;
+    if (key === 'rtlize') direction = value ? 'rtl' : 'keep';
+    else if (ruleId) rules[ruleId] = value;
+  }
+
+  const { rtlize, ...ruleToggles } = isObject(input.rules) ? input.rules : {};
+  if (typeof rtlize === 'boolean') direction = rtlize ? 'rtl' : 'keep';
+  for (const [ruleId, enabled] of Object.entries(ruleToggles)) {
+    if (isRuleId(ruleId) && typeof enabled === 'boolean') rules[ruleId] = enabled;
+  }
+
+  const flag = (value: unknown, fallback: boolean): boolean => (typeof value === 'boolean' ? value : fallback);
+
+  return {
+    direction: isOneOf(directionModes, input.direction) ? input.direction : direction,
+    breakpoints: mergeBreakpoints(input.breakpoints, base.breakpoints),
+    pageSettings: isOneOf(pageSettingsPolicies, input.pageSettings) ? input.pageSettings : base.pageSettings,
+    outputFormat: isOneOf(outputFormats, input.outputFormat) ? input.outputFormat : base.outputFormat,
+    outputEncoding: isOneOf(outputEncodings, input.outputEncoding) ? input.outputEncoding : base.outputEncoding,
+    postId: typeof input.postId === 'string' ? input.postId : base.postId,
+    rules,
+    customRules: Array.isArray(input.customRules) ? input.customRules.filter(isCustomRule) : base.customRules,
+    textNormalization: mergeTextNormalization(base.textNormalization, input.textNormalization),
+    htmlCleaning: mergeHtmlCleaning(base.htmlCleaning, input.htmlCleaning),
+    strictSanitize: flag(input.strictSanitize, base.strictSanitize),
+    autoFormatOnPaste: flag(input.autoFormatOnPaste, base.autoFormatOnPaste),
+    autoConvertOnPaste: flag(input.autoConvertOnPaste, base.autoConvertOnPaste),
+    motherPadding: mergeDevicePadding(base.motherPadding, input.motherPadding),
+    level2Padding: mergeDevicePadding(base.level2Padding, input.level2Padding),
+    level3Padding: mergeDevicePadding(base.level3Padding, input.level3Padding)
+  };
+};
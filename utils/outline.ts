@@ -0,0 +1,79 @@
+import { ElementorElementType, JsonValue } from '../types';
+import { isClipboardPayload, isContainer, isElementorElement, isJsonObject, isTemplateExport } from './elementor';
+import { childPath } from './jsonPath';
+
+export interface OutlineNode {
+  /** JSONPath of the element in the document */
+  path: string;
+  id?: string;
+  elType: ElementorElementType;
+  widgetType?: string;
+  title?: string;
+  /** Container hierarchy path as used by auto-rename, e.g. "1-2-1"; widgets carry their container's */
+  hierarchy: string;
+  children: OutlineNode[];
+}
+
+/**
+ * Hierarchy path of the n-th container (1-based) among its siblings.
+ */
+export const hierarchyPath = (parent: string, index: number): string => (parent ? `${parent}-${index}` : `${index}`);
+
+const buildNodes = (val: JsonValue, path: string, parentHierarchy: string): OutlineNode[] => {
+  if (!Array.isArray(val)) return [];
+  let containerCounter = 0;
+  return val.flatMap((item, index) => {
+    if (!isElementorElement(item)) return [];
+    const itemPath = childPath(path, index);
+    const hierarchy = isContainer(item) ? hierarchyPath(parentHierarchy, ++containerCounter) : parentHierarchy;
+    return [toNode(item as unknown as JsonValue, itemPath, hierarchy)];
+  });
+};
+
+const toNode = (val: JsonValue, path: string, hierarchy: string): OutlineNode => {
+  const element = val as unknown as Record<string, JsonValue>;
+  const title = isJsonObject(element.settings) ? element.settings['_title'] : undefined;
+  const node: OutlineNode = {
+    path,
+    elType: element.elType as ElementorElementType,
+    hierarchy,
+    children: buildNodes(element.elements, childPath(path, 'elements'), hierarchy)
+  };
+  if (typeof element.id === 'string') node.id = element.id;
+  if (typeof element.widgetType === 'string') node.widgetType = element.widgetType;
+  if (typeof title === 'string' && title) node.title = title;
+  return node;
+};
+
+/**
+ * Element tree of any document envelope, with paths pointing into the document as given.
+ */
+export const buildOutline = (doc: unknown): OutlineNode[] => {
+  if (Array.isArray(doc)) return buildNodes(doc, '$', '');
+  if (isClipboardPayload(doc)) return buildNodes(doc.elements as unknown as JsonValue, '$.elements', '');
+  if (isTemplateExport(doc)) return buildNodes(doc.content as unknown as JsonValue, '$.content', '');
+  if (isElementorElement(doc)) return [toNode(doc as unknown as JsonValue, '$', isContainer(doc) ? hierarchyPath('', 1) : '')];
+  return [];
+};
+
+/**
+ * Widget types used anywhere in the tree, sorted.
+ */
+export const outlineWidgetTypes = (nodes: OutlineNode[]): string[] => {
+  const types = new Set<string>();
+  const visit = (list: OutlineNode[]) => list.forEach(node => {
+    if (node.widgetType) types.add(node.widgetType);
+    visit(node.children);
+  });
+  visit(nodes);
+  return [...types].sort();
+};
+
+/**
+ * Keeps the widgets of one type and the elements leading to them.
+ */
+export const filterOutline = (nodes: OutlineNode[], widgetType: string): OutlineNode[] =>
+  nodes.flatMap(node => {
+    const children = filterOutline(node.children, widgetType);
+    return node.widgetType === widgetType || children.length > 0 ? [{ ...node, children }] : [];
+  });
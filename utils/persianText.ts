@@ -0,0 +1,116 @@
+import { DigitStyle, TextNormalizationCounts, TextNormalizationOptions } from '../types';
+
+const ZWNJ = '\u200C';
+
+/** Arabic letters and their Persian replacements */
+const characterMap: Record<string, string> = {
+  '\u064A': '\u06CC', // ي → ی
+  '\u0649': '\u06CC', // ى → ی
+  '\u0643': '\u06A9' // ك → ک
+};
+
+/** Code point of zero in each digit set */
+const digitZero: Record<Exclude<DigitStyle, 'keep'>, number> = {
+  latin: 0x30,
+  arabic: 0x660,
+  persian: 0x6f0
+};
+
+const PERSIAN_LETTER = '[\\u0621-\\u063A\\u0641-\\u064A\\u067E\\u0686\\u0698\\u06A9\\u06AF\\u06CC]';
+
+/** Digits of every set except the target; Latin digits inside Latin words (`H2O`, `mp3`) are left alone */
+const digitPattern = (target: Exclude<DigitStyle, 'keep'>): RegExp => {
+  const sets = [
+    ...(target !== 'latin' ? ['(?<![A-Za-z])[0-9]+(?![A-Za-z])'] : []),
+    ...(target !== 'arabic' ? ['[\\u0660-\\u0669]+'] : []),
+    ...(target !== 'persian' ? ['[\\u06F0-\\u06F9]+'] : [])
+  ];
+  return new RegExp(sets.join('|'), 'g');
+};
+
+const digitValue = (ch: string): number => {
+  const code = ch.charCodeAt(0);
+  if (code >= 0x6f0) return code - 0x6f0;
+  if (code >= 0x660) return code - 0x660;
+  return code - 0x30;
+};
+
+/** ZWNJ fixes, in order; each match counts as one change */
+const zwnjFixes: { pattern: RegExp; replace: string }[] = [
+  // Zero-width spaces between letters are meant as non-joiners
+  { pattern: new RegExp(`(?<=${PERSIAN_LETTER})\\u200B+(?=${PERSIAN_LETTER})`, 'g'), replace: ZWNJ },
+  // Repeated non-joiners
+  { pattern: /\u200C{2,}/g, replace: ZWNJ },
+  // Non-joiners next to spaces, or at the start or end of a run of text
+  { pattern: /^\u200C+|\u200C+$|(?<=\s)\u200C+|\u200C+(?=\s)/g, replace: '' },
+  // Verb prefix written with a space: "می روم" → "می‌روم"
+  { pattern: new RegExp(`(?<![\\u0600-\\u06FF])(ن?می) (?=${PERSIAN_LETTER})`, 'g'), replace: `$1${ZWNJ}` },
+  // Plural and superlative suffixes written with a space: "کتاب ها" → "کتاب‌ها"
+  { pattern: new RegExp(`(?<=${PERSIAN_LETTER}) (ها|های|هایی|ترین)(?![\\u0600-\\u06FF])`, 'g'), replace: `${ZWNJ}$1` }
+];
+
+export const emptyTextNormalizationCounts = (): TextNormalizationCounts => ({ characters: 0, digits: 0, zwnj: 0 });
+
+export const addTextNormalizationCounts = (a: TextNormalizationCounts, b: TextNormalizationCounts): TextNormalizationCounts => ({
+  characters: a.characters + b.characters,
+  digits: a.digits + b.digits,
+  zwnj: a.zwnj + b.zwnj
+});
+
+/**
+ * Normalizes a run of plain text (no markup, no entities).
+ */
+const normalizeRun = (text: string, options: TextNormalizationOptions, counts: TextNormalizationCounts): string => {
+  let result = text;
+  if (options.characters) {
+    result = result.replace(/[\u064A\u0649\u0643]/g, ch => {
+      counts.characters++;
+      return characterMap[ch];
+    });
+  }
+  if (options.digits !== 'keep') {
+    const zero = digitZero[options.digits];
+    result = result.replace(digitPattern(options.digits), digits => {
+      counts.digits += digits.length;
+      return [...digits].map(ch => String.fromCharCode(zero + digitValue(ch))).join('');
+    });
+  }
+  if (options.zwnj) {
+    for (const { pattern, replace } of zwnjFixes) {
+      result = result.replace(pattern, (...args) => {
+        counts.zwnj++;
+        return replace.replace('$1', typeof args[1] === 'string' ? args[1] : '');
+      });
+    }
+  }
+  return result;
+};
+
+/**
+ * Fixes Persian text: Arabic letters, digits and zero-width non-joiners, as configured.
+ * HTML tags, comments, entities and the contents of `<script>` and `<style>` are left untouched.
+ */
+export const normalizePersianText = (
+  html: string,
+  options: TextNormalizationOptions
+): { text: string; counts: TextNormalizationCounts } => {
+  const counts = emptyTextNormalizationCounts();
+  let rawText = false;
+  const text = html
+    .split(/(<!--[\s\S]*?-->|<[^>]*>)/)
+    .map((part, i) => {
+      // Odd parts are markup
+      if (i % 2 === 1) {
+        const tag = /^<(\/?)(script|style)\b/i.exec(part);
+        if (tag) rawText = !tag[1];
+        return part;
+      }
+      if (rawText || !part) return part;
+      return part
+        .split(/(&#?\w+;)/)
+        .map((run, j) => (j % 2 === 1 ? run : normalizeRun(run, options, counts)))
+        .join('');
+    })
+    .join('');
+  return { text, counts };
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { mergeOptions } from './options';
+import { convertElementorInput } from './pipeline';
+
+const input = JSON.stringify([
+  {
+    id: 'a1b2c3d',
+    elType: 'widget',
+    widgetType: 'html',
+    settings: { html: '<p onclick="track()">Hi</p>' },
+    elements: []
+  }
+]);
+
+describe('convertElementorInput', () => {
+  it('reports what the sanitizer neutralized', () => {
+    const { output, findings } = convertElementorInput(input, mergeOptions({ direction: 'keep', rules: { sanitize: true } }));
+    expect(output).not.toContain('onclick');
+    expect(findings).toMatchObject([{ kind: 'event-handler', elementId: 'a1b2c3d' }]);
+  });
+
+  it('fails in strict mode even when the sanitizer is not toggled on', () => {
+    const options = mergeOptions({ direction: 'keep', strictSanitize: true, rules: { sanitize: false } });
+    expect(() => convertElementorInput(input, options)).toThrow(/Found 1 dangerous item: Event handler at /);
+  });
+
+  it('leaves dangerous content alone with the sanitizer off', () => {
+    const { output, findings } = convertElementorInput(input, mergeOptions({ direction: 'keep' }));
+    expect(output).toContain('onclick');
+    expect(findings).toEqual([]);
+  });
+});
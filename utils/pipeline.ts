@@ -0,0 +1,44 @@
+import { CompressorOptions, ConversionOutput, TranslationMap } from '../types';
+import { buildStats, compressElementorJSON } from './compressor';
+import { convertDocumentFormat, parseElementorDocument } from './elementor';
+import { lintElementorDocument } from './lint';
+import { decodeElementorData, encodeElementorData } from './postmeta';
+import { describeFindings } from './sanitize';
+
+export interface ConversionSettings {
+  minify?: boolean;
+  /** Also lint the converted document */
+  lint?: boolean;
+  /** Also break the sizes down, see `buildSizeReport` */
+  sizeReport?: boolean;
+  /** Translated strings to write back, see `parseTranslations` */
+  translations?: TranslationMap;
+  onProgress?: (done: number, total: number) => void;
+}
+
+/**
+ * Full conversion of raw input text as done by the app and the CLI:
+ * decode, validate, compress, re-wrap and encode. Throws on invalid input, and on
+ * anything the `sanitize` rule finds when `strictSanitize` is on.
+ */
+export const convertElementorInput = (
+  raw: string,
+  options: CompressorOptions,
+  { minify = false, lint = false, sizeReport = false, translations, onProgress }: ConversionSettings = {}
+): ConversionOutput => {
+  const { value, encoding } = decodeElementorData(raw);
+  const result = compressElementorJSON(parseElementorDocument(value), options, { onProgress, sizeReport, translations });
+  if (options.strictSanitize && result.findings.length > 0) throw new Error(describeFindings(result.findings));
+  const document = convertDocumentFormat(result.cleaned, options.outputFormat);
+  const output = encodeElementorData(document, options.outputEncoding, minify, options.postId);
+  return {
+    output,
+    format: result.format,
+    encoding,
+    stats: buildStats(raw, output, result),
+    changes: result.changes,
+    problems: lint ? lintElementorDocument(document) : [],
+    findings: result.findings,
+    ...(result.sizes && { sizes: result.sizes })
+  };
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { decodeElementorData, encodeElementorData } from './postmeta';
+
+const doc = [{ id: 'a1', elType: 'widget', widgetType: 'html', settings: { html: '<p class="x">C:\\path "quoted"</p>' }, elements: [] }];
+const json = JSON.stringify(doc);
+
+describe('decodeElementorData', () => {
+  it('reads plain JSON', () => {
+    expect(decodeElementorData(`\n${JSON.stringify(doc, null, 2)}\n`)).toEqual({ value: doc, encoding: 'json' });
+  });
+
+  it('unwraps double-encoded postmeta', () => {
+    expect(decodeElementorData(JSON.stringify(json))).toEqual({ value: doc, encoding: 'string' });
+  });
+
+  it('strips the slashes added on save', () => {
+    const slashed = json.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+    expect(decodeElementorData(slashed)).toEqual({ value: doc, encoding: 'slashed' });
+  });
+
+  it('throws the parse error of the input as given', () => {
+    expect(() => decodeElementorData('[{"id":')).toThrow(SyntaxError);
+  });
+});
+
+describe('encodeElementorData', () => {
+  it('writes postmeta that decodes back', () => {
+    expect(decodeElementorData(encodeElementorData(doc, 'postmeta', false))).toEqual({ value: doc, encoding: 'string' });
+  });
+
+  it('writes a WP-CLI command with slashed, shell-quoted JSON', () => {
+    const command = encodeElementorData([{ id: 'a1', settings: { title: "It's" } }], 'wp-cli', true, '42');
+    expect(command).toBe(`wp post meta update '42' _elementor_data '[{"id":"a1","settings":{"title":"It'\\''s"}}]' && wp elementor flush-css\n`);
+    expect(encodeElementorData([], 'wp-cli', true)).toContain('wp post meta update "$POST_ID" _elementor_data');
+  });
+
+  it('slashes backslashes so update_post_meta restores them', () => {
+    const command = encodeElementorData(doc, 'wp-cli', true, '1');
+    const quoted = /_elementor_data '(.*)' &&/.exec(command)![1];
+    expect(decodeElementorData(quoted).value).toEqual(doc);
+    expect(quoted).toContain('C:\\\\\\\\path');
+  });
+});
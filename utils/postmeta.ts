@@ -0,0 +1,75 @@
+import { InputEncoding, OutputEncoding } from '../types';
+
+/** Layers of string encoding peeled off before giving up */
+const MAX_DEPTH = 3;
+
+/** Placeholder used in the WP-CLI command when no post id is set */
+export const POST_ID_PLACEHOLDER = '$POST_ID';
+
+/**
+ * PHP `stripslashes`: drops one backslash before any character, `\\` becomes `\`.
+ */
+const stripSlashes = (str: string): string => str.replace(/\\(.?)/gs, '$1');
+
+/**
+ * PHP `wp_slash` for JSON text. Only backslashes need doubling for `wp_unslash` to restore it.
+ */
+const wpSlash = (str: string): string => str.replace(/\\/g, '\\\\');
+
+const tryParse = (str: string): { ok: true; value: unknown } | { ok: false } => {
+  try {
+    return { ok: true, value: JSON.parse(str) };
+  } catch {
+    return { ok: false };
+  }
+};
+
+/**
+ * Parses editor or file input, unwrapping `_elementor_data` as found in the database or WP-CLI output:
+ * JSON encoded again as a string (`"[{\"id\":...}]"`) or with slashes added (`[{\"id\":...}]`).
+ * Throws the original JSON.parse error when no unwrapping produces JSON.
+ */
+export const decodeElementorData = (raw: string): { value: unknown; encoding: InputEncoding } => {
+  let text = raw.trim();
+  let encoding: InputEncoding = 'json';
+
+  for (let depth = 0; depth <= MAX_DEPTH; depth++) {
+    const parsed = tryParse(text);
+    if (parsed.ok) {
+      // A JSON string holding JSON is the double-encoded postmeta value
+      if (typeof parsed.value !== 'string' || !/^\s*[[{"]/.test(parsed.value)) return { value: parsed.value, encoding };
+      text = parsed.value.trim();
+      if (encoding === 'json') encoding = 'string';
+      continue;
+    }
+    if (!text.includes('\\')) break;
+    text = stripSlashes(text);
+    encoding = 'slashed';
+  }
+
+  // Re-throw the error for the input as given
+  return { value: JSON.parse(raw), encoding: 'json' };
+};
+
+/**
+ * Quotes a value for a POSIX shell command line.
+ */
+const shellQuote = (str: string): string => `'${str.replace(/'/g, `'\\''`)}'`;
+
+/**
+ * Serializes a document for output. `postmeta` is the minified JSON as a JSON string literal,
+ * `wp-cli` a command writing it to `_elementor_data` and clearing Elementor's generated CSS.
+ */
+export const encodeElementorData = (doc: unknown, encoding: OutputEncoding, minify: boolean, postId = ''): string => {
+  switch (encoding) {
+    case 'json':
+      return minify ? JSON.stringify(doc) : JSON.stringify(doc, null, 2);
+    case 'postmeta':
+      return JSON.stringify(JSON.stringify(doc));
+    case 'wp-cli': {
+      // update_post_meta() unslashes its value, so the JSON is slashed like Elementor does on save
+      const id = postId.trim() ? shellQuote(postId.trim()) : `"${POST_ID_PLACEHOLDER}"`;
+      return `wp post meta update ${id} _elementor_data ${shellQuote(wpSlash(JSON.stringify(doc)))} && wp elementor flush-css\n`;
+    }
+  }
+};
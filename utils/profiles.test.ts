@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { defaultOptions, mergeOptions } from './options';
+import { PROFILES_STORAGE_KEY, createProfile, exportProfiles, importProfiles, loadProfileStore, uniqueProfileName } from './profiles';
+
+/** In-memory stand-in for localStorage */
+const memoryStorage = (items: Record<string, string> = {}): Storage => {
+  const map = new Map(Object.entries(items));
+  return {
+    get length() {
+      return map.size;
+    },
+    key: index => [...map.keys()][index] ?? null,
+    getItem: key => map.get(key) ?? null,
+    setItem: (key, value) => void map.set(key, value),
+    removeItem: key => void map.delete(key),
+    clear: () => map.clear()
+  };
+};
+
+describe('loadProfileStore', () => {
+  it('starts with a Default profile', () => {
+    const store = loadProfileStore(memoryStorage());
+    expect(store.profiles).toHaveLength(1);
+    expect(store.profiles[0]).toMatchObject({ id: store.activeId, name: 'Default', options: defaultOptions });
+  });
+
+  it('migrates the newest legacy settings into the Default profile', () => {
+    const store = loadProfileStore(
+      memoryStorage({
+        elementor_compressor_settings_v2: JSON.stringify({ rtlize: true, removeMargins: true }),
+        elementor_compressor_settings_v10: JSON.stringify({ rtlize: false, removeMargins: false }),
+        unrelated: '{'
+      })
+    );
+    expect(store.profiles[0].name).toBe('Default');
+    expect(store.profiles[0].options.direction).toBe('keep');
+    expect(store.profiles[0].options.rules['remove-margins']).toBe(false);
+  });
+
+  it('migrates the options of saved profiles and repairs the active id', () => {
+    const store = loadProfileStore(
+      memoryStorage({
+        [PROFILES_STORAGE_KEY]: JSON.stringify({
+          version: 1,
+          activeId: 'gone',
+          profiles: [{ id: 'a', name: ' RTL ', options: { autoRename: false } }, { id: 'b', name: '' }]
+        })
+      })
+    );
+    expect(store.activeId).toBe('a');
+    expect(store.profiles).toEqual([{ id: 'a', name: 'RTL', options: mergeOptions({ rules: { 'auto-rename': false } }) }]);
+  });
+
+  it('falls back to defaults when the store is corrupt', () => {
+    const store = loadProfileStore(memoryStorage({ [PROFILES_STORAGE_KEY]: '{"profiles":' }));
+    expect(store.profiles[0].options).toEqual(defaultOptions);
+  });
+});
+
+describe('importProfiles', () => {
+  it('reads back exported profiles with new ids', () => {
+    const profiles = [createProfile('RTL', mergeOptions({ direction: 'rtl' })), createProfile('LTR', mergeOptions({ direction: 'ltr' }))];
+    const imported = importProfiles(exportProfiles(profiles), 'Imported');
+    expect(imported.map(({ name, options }) => ({ name, options }))).toEqual(profiles.map(({ name, options }) => ({ name, options })));
+    expect(imported[0].id).not.toBe(profiles[0].id);
+  });
+
+  it('accepts a bare options object such as a CLI config', () => {
+    const [profile] = importProfiles(JSON.stringify({ direction: 'keep', removeMargins: false }), 'config.json');
+    expect(profile.name).toBe('config.json');
+    expect(profile.options.rules['remove-margins']).toBe(false);
+  });
+
+  it('rejects files without profiles', () => {
+    expect(() => importProfiles('[]', 'x')).toThrow(/JSON object/);
+    expect(() => importProfiles(JSON.stringify({ profiles: [] }), 'x')).toThrow(/No profiles/);
+  });
+});
+
+describe('uniqueProfileName', () => {
+  it('numbers names that are taken', () => {
+    const profiles = [createProfile('Default'), createProfile('Default (2)')];
+    expect(uniqueProfileName(profiles, 'Default')).toBe('Default (3)');
+    expect(uniqueProfileName(profiles, 'New')).toBe('New');
+  });
+});
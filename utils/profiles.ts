@@ -0,0 +1,120 @@
+import { CompressorOptions, OptionProfile, OptionProfileStore } from '../types';
+import { defaultOptions, mergeOptions } from './options';
+
+export const PROFILES_STORAGE_KEY = 'elementor_compressor_profiles';
+
+/** Settings saved by earlier versions, one options object per versioned key */
+const LEGACY_SETTINGS_KEY = /^elementor_compressor_settings_v(\d+)$/;
+
+/** Marks exported profile files so they can be told apart from a bare options object */
+const EXPORT_TYPE = 'elementor-compressor-profiles';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const createProfileId = (): string => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+export const createProfile = (name: string, options: CompressorOptions = defaultOptions): OptionProfile => ({
+  id: createProfileId(),
+  name,
+  options: mergeOptions(options)
+});
+
+const defaultStore = (options: CompressorOptions = defaultOptions): OptionProfileStore => {
+  const profile = createProfile('Default', options);
+  return { version: 1, activeId: profile.id, profiles: [profile] };
+};
+
+const parseJson = (raw: string | null): unknown => {
+  if (raw === null) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Profiles from a stored or imported list; entries without a name are skipped
+ * and options are migrated to the current shape.
+ */
+const readProfiles = (value: unknown): OptionProfile[] =>
+  (Array.isArray(value) ? value : [])
+    .filter(profile => isObject(profile) && typeof profile.name === 'string' && profile.name.trim())
+    .map(profile => ({
+      id: typeof profile.id === 'string' && profile.id ? profile.id : createProfileId(),
+      name: profile.name.trim(),
+      options: mergeOptions(profile.options)
+    }));
+
+/**
+ * Settings saved under the newest `elementor_compressor_settings_v*` key, if any.
+ */
+const readLegacySettings = (storage: Storage): unknown => {
+  let newest: { version: number; key: string } | undefined;
+  for (let i = 0; i < storage.length; i++) {
+    const key = storage.key(i);
+    const match = key ? LEGACY_SETTINGS_KEY.exec(key) : null;
+    if (key && match && (!newest || Number(match[1]) > newest.version)) newest = { version: Number(match[1]), key };
+  }
+  return newest ? parseJson(storage.getItem(newest.key)) : undefined;
+};
+
+/**
+ * Loads saved profiles. Corrupt entries fall back to defaults instead of throwing,
+ * and settings from before profiles existed become the "Default" profile.
+ */
+export const loadProfileStore = (storage: Storage = localStorage): OptionProfileStore => {
+  const saved = parseJson(storage.getItem(PROFILES_STORAGE_KEY));
+  if (isObject(saved)) {
+    const profiles = readProfiles(saved.profiles);
+    if (profiles.length > 0) {
+      const activeId = profiles.find(profile => profile.id === saved.activeId)?.id ?? profiles[0].id;
+      return { version: 1, activeId, profiles };
+    }
+  }
+
+  const legacy = readLegacySettings(storage);
+  return defaultStore(isObject(legacy) ? mergeOptions(legacy) : defaultOptions);
+};
+
+export const saveProfileStore = (store: OptionProfileStore, storage: Storage = localStorage) => {
+  storage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(store));
+};
+
+export const getActiveProfile = (store: OptionProfileStore): OptionProfile =>
+  store.profiles.find(profile => profile.id === store.activeId) ?? store.profiles[0];
+
+/**
+ * Returns `name`, or `name (2)`, `name (3)`... when another profile already uses it.
+ */
+export const uniqueProfileName = (profiles: OptionProfile[], name: string): string => {
+  const taken = new Set(profiles.map(profile => profile.name));
+  let unique = name;
+  for (let n = 2; taken.has(unique); n++) unique = `${name} (${n})`;
+  return unique;
+};
+
+/**
+ * Serializes profiles for download. Ids are left out; they are assigned again on import.
+ */
+export const exportProfiles = (profiles: OptionProfile[]): string =>
+  JSON.stringify({ type: EXPORT_TYPE, version: 1, profiles: profiles.map(({ name, options }) => ({ name, options })) }, null, 2);
+
+/**
+ * Reads profiles from an exported file. A single `{ name, options }` profile or a bare
+ * options object (such as a CLI config file) is accepted too, named after `fallbackName`.
+ * Throws when the file holds nothing usable.
+ */
+export const importProfiles = (text: string, fallbackName: string): OptionProfile[] => {
+  const parsed = parseJson(text);
+  if (!isObject(parsed)) throw new Error('Profile file must contain a JSON object');
+
+  let profiles: OptionProfile[];
+  if (parsed.type === EXPORT_TYPE || Array.isArray(parsed.profiles)) profiles = readProfiles(parsed.profiles);
+  else if (typeof parsed.name === 'string' && isObject(parsed.options)) profiles = readProfiles([parsed]);
+  else profiles = [createProfile(fallbackName, mergeOptions(parsed))];
+
+  if (profiles.length === 0) throw new Error('No profiles found in file');
+  return profiles.map(profile => ({ ...profile, id: createProfileId() }));
+};
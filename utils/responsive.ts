@@ -0,0 +1,96 @@
+import { Breakpoint, DevicePadding, PaddingValues, ResponsiveSuffix } from '../types';
+
+/** All Elementor breakpoints, widest first */
+export const BREAKPOINTS: Breakpoint[] = ['widescreen', 'desktop', 'laptop', 'tablet_extra', 'tablet', 'mobile_extra', 'mobile'];
+
+/** Breakpoints Elementor always has; the others are enabled per site */
+export const DEFAULT_BREAKPOINTS: Breakpoint[] = ['desktop', 'tablet', 'mobile'];
+
+/** Device suffixes Elementor appends to responsive control names. */
+export const RESPONSIVE_SUFFIXES: Exclude<ResponsiveSuffix, ''>[] = [
+  '_widescreen',
+  '_laptop',
+  '_tablet_extra',
+  '_tablet',
+  '_mobile_extra',
+  '_mobile'
+];
+
+export const breakpointSuffix = (breakpoint: Breakpoint): ResponsiveSuffix =>
+  breakpoint === 'desktop' ? '' : `_${breakpoint}`;
+
+const suffixBreakpoint = (suffix: ResponsiveSuffix): Breakpoint =>
+  suffix === '' ? 'desktop' : (suffix.slice(1) as Breakpoint);
+
+/**
+ * Active breakpoints in Elementor's order, always including the default ones.
+ */
+export const activeBreakpoints = (breakpoints: Breakpoint[]): Breakpoint[] =>
+  BREAKPOINTS.filter(bp => DEFAULT_BREAKPOINTS.includes(bp) || breakpoints.includes(bp));
+
+/** Setting suffixes of the active breakpoints, desktop (`''`) included. */
+export const activeSuffixes = (breakpoints: Breakpoint[]): ResponsiveSuffix[] =>
+  activeBreakpoints(breakpoints).map(breakpointSuffix);
+
+/** Names of a responsive control on every active breakpoint, e.g. `padding`, `padding_tablet`, ... */
+export const responsiveKeys = (base: string, breakpoints: Breakpoint[]): string[] =>
+  activeSuffixes(breakpoints).map(suffix => `${base}${suffix}`);
+
+/**
+ * Splits a setting key into its control name and device suffix,
+ * e.g. `padding_tablet_extra` → `{ base: 'padding', suffix: '_tablet_extra' }`.
+ */
+export const splitResponsiveKey = (key: string): { base: string; suffix: ResponsiveSuffix } => {
+  // Visibility toggles are one control per device, not responsive variants
+  if (key.startsWith('hide_')) return { base: key, suffix: '' };
+  for (const suffix of RESPONSIVE_SUFFIXES) {
+    if (key.endsWith(suffix) && key.length > suffix.length) {
+      return { base: key.slice(0, -suffix.length), suffix };
+    }
+  }
+  return { base: key, suffix: '' };
+};
+
+/** Device each breakpoint inherits from when it has no value of its own. */
+const breakpointParent: Record<Exclude<Breakpoint, 'desktop'>, Breakpoint> = {
+  widescreen: 'desktop',
+  laptop: 'desktop',
+  tablet_extra: 'laptop',
+  tablet: 'tablet_extra',
+  mobile_extra: 'tablet',
+  mobile: 'mobile_extra'
+};
+
+/**
+ * Active breakpoints a breakpoint inherits from, nearest first and ending with desktop.
+ * Inactive breakpoints are skipped, as Elementor does.
+ */
+export const breakpointParents = (breakpoint: Breakpoint, breakpoints: Breakpoint[] = BREAKPOINTS): Breakpoint[] => {
+  const active = activeBreakpoints(breakpoints);
+  const parents: Breakpoint[] = [];
+  for (let bp = breakpoint; bp !== 'desktop'; ) {
+    bp = breakpointParent[bp];
+    if (active.includes(bp)) parents.push(bp);
+  }
+  return parents;
+};
+
+/** Same as `breakpointParents`, for setting suffixes. */
+export const responsiveParents = (suffix: ResponsiveSuffix, breakpoints?: Breakpoint[]): ResponsiveSuffix[] =>
+  breakpointParents(suffixBreakpoint(suffix), breakpoints).map(breakpointSuffix);
+
+/**
+ * Whether the breakpoint of a setting suffix is active.
+ */
+export const isActiveSuffix = (suffix: ResponsiveSuffix, breakpoints: Breakpoint[]): boolean =>
+  activeBreakpoints(breakpoints).includes(suffixBreakpoint(suffix));
+
+/**
+ * Padding configured for a breakpoint, falling back to the device it inherits from.
+ */
+export const resolveDevicePadding = (padding: DevicePadding, breakpoint: Breakpoint): PaddingValues => {
+  const own = padding[breakpoint];
+  if (own) return own;
+  const parent = breakpointParents(breakpoint).find(bp => padding[bp]);
+  return parent ? padding[parent]! : padding.desktop;
+};
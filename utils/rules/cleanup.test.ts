@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { ElementorElement } from '../../types';
+import { compressElementorJSON } from '../compressor';
+import { mergeOptions } from '../options';
+
+const heading = (): ElementorElement[] =>
+  [{ id: 'h1', elType: 'widget', widgetType: 'heading', settings: { title: 'Hi', align: 'center', align_tablet: 'center', align_mobile: 'left' }, elements: [] }] as ElementorElement[];
+
+describe('dedupeResponsive', () => {
+  it('is off by default, so existing output does not change', () => {
+    const { cleaned } = compressElementorJSON(heading(), mergeOptions({ direction: 'keep' }));
+    expect(cleaned[0].settings).toEqual({ title: 'Hi', align: 'center', align_tablet: 'center', align_mobile: 'left' });
+  });
+
+  it('drops overrides equal to the inherited value when enabled', () => {
+    const { cleaned } = compressElementorJSON(heading(), mergeOptions({ direction: 'keep', rules: { 'dedupe-responsive': true } }));
+    expect(cleaned[0].settings).toEqual({ title: 'Hi', align: 'center', align_mobile: 'left' });
+  });
+});
+
+describe('minifyCustomCss', () => {
+  const css = 'selector .title {\n  color: red; /* brand */\n}\n';
+  const widget = (): ElementorElement[] =>
+    [{ id: 'w1', elType: 'widget', widgetType: 'heading', settings: { title: 'Hi', custom_css: css }, elements: [] }] as ElementorElement[];
+
+  it('keeps custom CSS as written by default', () => {
+    const { cleaned } = compressElementorJSON(widget(), mergeOptions({ direction: 'keep' }));
+    expect(cleaned[0].settings).toEqual({ title: 'Hi', custom_css: css });
+  });
+
+  it('minifies custom CSS when enabled', () => {
+    const { cleaned } = compressElementorJSON(widget(), mergeOptions({ direction: 'keep', rules: { 'minify-custom-css': true } }));
+    expect(cleaned[0].settings).toEqual({ title: 'Hi', custom_css: 'selector .title{color:red}' });
+  });
+});
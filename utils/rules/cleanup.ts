@@ -0,0 +1,115 @@
+import { CompressorRule } from '../../types';
+import { isDefaultSetting, isRedundantOverride } from '../defaults';
+import { customCssKeys, minifyCss } from '../css';
+import { isJsonObject } from '../elementor';
+
+export const removeMotionFx: CompressorRule = {
+  id: 'remove-motion-fx',
+  label: 'Strip Animations',
+  description: 'Strip MotionFX properties',
+  category: 'cleanup',
+  defaultEnabled: false,
+  appliesTo: { settingsKey: [/^motion_fx_/] },
+  beforeKey: () => ({ remove: true })
+};
+
+export const blankElementWidth: CompressorRule = {
+  id: 'blank-element-width',
+  label: 'Reset Widget Width',
+  description: 'Blank _element_width so widgets use the default width',
+  category: 'cleanup',
+  defaultEnabled: true,
+  appliesTo: { settingsKey: ['_element_width'] },
+  beforeKey: () => ({ value: "", final: true })
+};
+
+export const customWidthFlexAlign: CompressorRule = {
+  id: 'custom-width-flex-align',
+  label: 'Drop Custom Widths',
+  description: 'Replace custom widget widths with flex-start alignment',
+  category: 'cleanup',
+  defaultEnabled: true,
+  appliesTo: { settingsKey: ['_element_custom_width', '_element_custom_width_tablet'] },
+  beforeKey: (ctx) => {
+    ctx.addKey('_flex_align_self', 'flex-start');
+    return { remove: true };
+  }
+};
+
+/**
+ * Minifies custom CSS fields; the `selector` placeholder and strings are kept as written.
+ */
+export const minifyCustomCss: CompressorRule = {
+  id: 'minify-custom-css',
+  label: 'Minify Custom CSS',
+  description: 'Strip comments & whitespace from custom CSS',
+  category: 'cleanup',
+  defaultEnabled: false,
+  appliesTo: { settingsKey: customCssKeys },
+  afterKey: ({ value, parentKey }) => {
+    if (parentKey !== 'settings' || typeof value !== 'string') return;
+    const css = minifyCss(value);
+    if (css !== value) return { value: css };
+  }
+};
+
+export const removeRedundantObjects: CompressorRule = {
+  id: 'remove-redundant-objects',
+  label: 'Strip Empty Sizes',
+  description: 'Remove empty {size, sizes} objects and {}',
+  category: 'cleanup',
+  defaultEnabled: true,
+  beforeKey: ({ value }) => {
+    if (!isJsonObject(value)) return;
+    if ('size' in value && 'sizes' in value) {
+      if (value.size === "" && Array.isArray(value.sizes) && value.sizes.length === 0) {
+        return { remove: true };
+      }
+    }
+    if (Object.keys(value).length === 0) return { remove: true };
+  }
+};
+
+export const removeDefaultValues: CompressorRule = {
+  id: 'remove-default-values',
+  label: 'Strip Default Values',
+  description: 'Remove settings saved at their Elementor default',
+  category: 'cleanup',
+  defaultEnabled: false,
+  afterKey: ({ key, value, node, parentKey, element, options }) => {
+    if (parentKey !== 'settings' || typeof key !== 'string' || !element || Array.isArray(node)) return;
+    if (isDefaultSetting(element, key, value, node, options.breakpoints)) return { remove: true };
+  }
+};
+
+export const removeEmptyValues: CompressorRule = {
+  id: 'remove-empty-values',
+  label: 'Strip Empty Values',
+  description: 'Remove null values and objects emptied by cleaning',
+  category: 'cleanup',
+  defaultEnabled: true,
+  afterKey: ({ key, value }) => {
+    if (value === null) return { remove: true };
+    // Array items only drop nulls; settings and elements must stay even when empty
+    if (typeof key === 'string' && isJsonObject(value) && Object.keys(value).length === 0) {
+      if (key !== 'settings' && key !== 'elements') return { remove: true };
+    }
+  }
+};
+
+/**
+ * Runs on the final settings, after every other rule has written its values,
+ * so an override is only dropped when it matches what the device really inherits.
+ */
+export const dedupeResponsive: CompressorRule = {
+  id: 'dedupe-responsive',
+  label: 'Collapse Responsive Overrides',
+  description: 'Remove tablet/mobile values equal to the inherited one',
+  category: 'cleanup',
+  defaultEnabled: false,
+  settings: ({ element, target, strip, options }) => {
+    for (const key of Object.keys(target)) {
+      if (isRedundantOverride(element, key, target[key], target, options.breakpoints)) strip(key);
+    }
+  }
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { CustomRule, JsonValue } from '../../types';
+import { applyCustomRules } from './custom';
+
+const tree = (): JsonValue => [
+  { id: 'w1', elType: 'widget', widgetType: 'heading', settings: { title: 'Hi', header_size: 'h3', _css_classes: 'big' }, elements: [] }
+];
+
+const rule = (pattern: string, target: 'key' | 'path' = 'key'): CustomRule => ({
+  id: 'r1',
+  name: 'Rule',
+  enabled: true,
+  match: { target, pattern },
+  action: { type: 'remove' }
+});
+
+describe('applyCustomRules', () => {
+  it('removes the settings a key pattern matches', () => {
+    const { cleaned, removedCount } = applyCustomRules(tree(), [rule('^_css')], () => {});
+    expect(removedCount).toBe(1);
+    expect(cleaned).toEqual([{ id: 'w1', elType: 'widget', widgetType: 'heading', settings: { title: 'Hi', header_size: 'h3' }, elements: [] }]);
+  });
+
+  it('matches nothing while the pattern is empty', () => {
+    const record = () => expect.unreachable('nothing should change');
+    for (const pattern of ['', '  ']) {
+      for (const target of ['key', 'path'] as const) {
+        expect(applyCustomRules(tree(), [rule(pattern, target)], record)).toEqual({ cleaned: tree(), removedCount: 0 });
+      }
+    }
+  });
+
+  it('skips disabled rules', () => {
+    expect(applyCustomRules(tree(), [{ ...rule('.*'), enabled: false }], () => {}).removedCount).toBe(0);
+  });
+});
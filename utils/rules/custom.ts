@@ -0,0 +1,178 @@
+import { CustomRule, ElementInfo, JsonObject, JsonValue } from '../../types';
+import { isElementorElement, isJsonObject } from '../elementor';
+import { childPath, compileJsonPath } from '../jsonPath';
+
+type CustomRuleRecorder = (
+  rule: CustomRule,
+  path: string,
+  element: ElementInfo | undefined,
+  oldValue: JsonValue | undefined,
+  newValue: JsonValue | undefined
+) => void;
+
+interface CompiledRule {
+  rule: CustomRule;
+  matchesKey: (key: string, path: string, parentKey: string | undefined) => boolean;
+  valueRegex?: RegExp;
+  /** Literal setting name a `set` rule may add when missing */
+  addKey?: string;
+  apply: (value: JsonValue) => { remove: true } | { rename: string } | { value: JsonValue };
+}
+
+const compileRegExp = (rule: CustomRule, pattern: string, flags?: string): RegExp => {
+  try {
+    return new RegExp(pattern, flags);
+  } catch (e: any) {
+    throw new Error(`Custom rule "${rule.name}": ${e.message}`);
+  }
+};
+
+const parseSetValue = (raw: string): JsonValue => {
+  try {
+    return JSON.parse(raw);
+  } catch (e) {
+    return raw;
+  }
+};
+
+const compileRule = (rule: CustomRule): CompiledRule => {
+  const { match, action } = rule;
+  let matchesKey: CompiledRule['matchesKey'];
+
+  if (match.target === 'path') {
+    let matcher: (path: string) => boolean;
+    try {
+      matcher = compileJsonPath(match.pattern);
+    } catch (e: any) {
+      throw new Error(`Custom rule "${rule.name}": ${e.message}`);
+    }
+    matchesKey = (_key, path) => matcher(path);
+  } else {
+    const keyRegex = compileRegExp(rule, match.pattern);
+    matchesKey = (key, _path, parentKey) => parentKey === 'settings' && keyRegex.test(key);
+  }
+
+  let apply: CompiledRule['apply'];
+  switch (action.type) {
+    case 'remove':
+      apply = () => ({ remove: true });
+      break;
+    case 'set': {
+      const value = parseSetValue(action.value);
+      apply = () => ({ value });
+      break;
+    }
+    case 'rename':
+      if (!action.to) throw new Error(`Custom rule "${rule.name}": rename needs a new key name`);
+      apply = () => ({ rename: action.to });
+      break;
+    case 'replace': {
+      const regex = compileRegExp(rule, action.pattern, action.flags);
+      apply = (value) => ({ value: typeof value === 'string' ? value.replace(regex, action.replacement) : value });
+      break;
+    }
+  }
+
+  return {
+    rule,
+    matchesKey,
+    valueRegex: match.valuePattern ? compileRegExp(rule, match.valuePattern) : undefined,
+    addKey: action.type === 'set' && match.target === 'key' && /^[\w-]+$/.test(match.pattern) && !match.valuePattern
+      ? match.pattern
+      : undefined,
+    apply
+  };
+};
+
+const elementMatches = (rule: CustomRule, element: ElementInfo | undefined): boolean => {
+  const { elType, widgetType, containerLevel } = rule.match;
+  if (!elType && !widgetType && !containerLevel) return true;
+  if (!element) return false;
+  if (elType && element.elType !== elType) return false;
+  if (widgetType && element.widgetType !== widgetType) return false;
+  if (containerLevel && (element.elType !== 'container' || Math.min(element.level, 3) !== containerLevel)) return false;
+  return true;
+};
+
+/**
+ * Applies user-defined rules to an already cleaned document.
+ * A `set` rule whose key pattern is a plain setting name also adds the setting where it is missing.
+ * Throws when a rule has an invalid pattern. Returns the number of removed keys.
+ */
+export const applyCustomRules = (
+  root: JsonValue,
+  customRules: CustomRule[],
+  record: CustomRuleRecorder
+): { cleaned: JsonValue; removedCount: number } => {
+  // A rule without a pattern yet would match every key, so it matches nothing until one is typed
+  const compiled = customRules.filter(rule => rule.enabled && rule.match.pattern.trim()).map(compileRule);
+  let removedCount = 0;
+  if (compiled.length === 0) return { cleaned: root, removedCount };
+
+  const walk = (val: JsonValue, path: string, parentKey: string | undefined, level: number, element?: ElementInfo): JsonValue => {
+    if (Array.isArray(val)) {
+      return val.map((item, i) => walk(item, childPath(path, i), parentKey, level, element));
+    }
+    if (!isJsonObject(val)) return val;
+
+    if (isElementorElement(val)) {
+      if (val.elType === 'container') level++;
+      const title = isJsonObject(val.settings) ? val.settings['_title'] : undefined;
+      element = {
+        id: val.id,
+        title: typeof title === 'string' ? title : undefined,
+        elType: val.elType,
+        widgetType: val.elType === 'widget' ? val.widgetType : undefined,
+        level,
+        path: ''
+      };
+    }
+
+    const result: JsonObject = {};
+    for (const key of Object.keys(val)) {
+      let outKey = key;
+      let value: JsonValue | undefined = val[key];
+      const keyPath = childPath(path, key);
+
+      for (const c of compiled) {
+        if (!c.matchesKey(key, keyPath, parentKey) || !elementMatches(c.rule, element)) continue;
+        if (c.valueRegex && (typeof value !== 'string' || !c.valueRegex.test(value))) continue;
+
+        const outcome = c.apply(value);
+        if ('remove' in outcome) {
+          record(c.rule, keyPath, element, value, undefined);
+          removedCount++;
+          value = undefined;
+          break;
+        }
+        if ('rename' in outcome) {
+          record(c.rule, keyPath, element, value, undefined);
+          record(c.rule, childPath(path, outcome.rename), element, val[outcome.rename], value);
+          outKey = outcome.rename;
+          break;
+        }
+        record(c.rule, keyPath, element, value, outcome.value);
+        value = outcome.value;
+      }
+
+      if (value !== undefined) {
+        result[outKey] = walk(value, childPath(path, outKey), outKey, level, element);
+      }
+    }
+
+    if (parentKey === 'settings' && element) {
+      for (const c of compiled) {
+        if (!c.addKey || c.addKey in result || !elementMatches(c.rule, element)) continue;
+        const outcome = c.apply(null);
+        if ('value' in outcome) {
+          record(c.rule, childPath(path, c.addKey), element, undefined, outcome.value);
+          result[c.addKey] = outcome.value;
+        }
+      }
+    }
+
+    return result;
+  };
+
+  return { cleaned: walk(root, '$', undefined, 0), removedCount };
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { ElementorElement } from '../../types';
+import { getIdMap } from '../changeLog';
+import { compressElementorJSON } from '../compressor';
+import { mergeOptions } from '../options';
+
+const widget = (id: string, settings: Record<string, unknown>): ElementorElement =>
+  ({ id, elType: 'widget', widgetType: 'html', settings, elements: [] }) as ElementorElement;
+
+const collectIds = (elements: ElementorElement[]): string[] =>
+  elements.flatMap(element => [element.id, ...collectIds(element.elements ?? [])]);
+
+describe('regenerateIds', () => {
+  const options = mergeOptions({ direction: 'keep', rules: { 'regenerate-ids': true } });
+
+  it('gives elements that share an id their own ids', () => {
+    const { cleaned, changes } = compressElementorJSON(
+      [
+        { id: 'dup1', elType: 'container', settings: {}, elements: [widget('dup1', { html: 'a' }), widget('w2', { html: 'b' })] } as ElementorElement,
+        widget('dup1', { html: 'c' })
+      ],
+      options
+    );
+    const ids = collectIds(cleaned);
+    expect(ids).toHaveLength(4);
+    expect(new Set(ids).size).toBe(4);
+    expect(ids.every(id => /^[0-9a-f]{7}$/.test(id))).toBe(true);
+    expect(getIdMap(changes)).toEqual({ dup1: ids[0], w2: ids[2] });
+  });
+
+  it('points references at the first element with the old id', () => {
+    const { cleaned } = compressElementorJSON(
+      [
+        widget('dup1', { html: '<a href="#dup1">x</a><div data-id="dup1"></div>' }),
+        widget('dup1', { html: 'selector .elementor-element-dup1 {}', _element_id: 'dup1' })
+      ],
+      options
+    );
+    const [first, second] = cleaned;
+    expect(second.id).not.toBe(first.id);
+    expect(first.settings).toEqual({ html: `<a href="#${first.id}">x</a><div data-id="${first.id}"></div>` });
+    expect(second.settings).toEqual({ html: `selector .elementor-element-${first.id} {}`, _element_id: first.id });
+  });
+});
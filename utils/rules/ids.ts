@@ -0,0 +1,106 @@
+import { CompressorRule, ElementInfo, JsonObject, JsonValue, RuleTransformContext } from '../../types';
+import { isElementorElement, isJsonObject } from '../elementor';
+import { childPath } from '../jsonPath';
+
+/** Keys whose whole value may be an element id used as an anchor target */
+const anchorKeys = ['_element_id', 'css_id', 'anchor'];
+
+const escapeRegExp = (str: string): string => str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const randomHexId = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(4));
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('').slice(0, 7);
+};
+
+const collectIds = (val: JsonValue, ids: Set<string>) => {
+  if (Array.isArray(val)) {
+    val.forEach(item => collectIds(item, ids));
+  } else if (isJsonObject(val)) {
+    if (isElementorElement(val)) ids.add(val.id);
+    Object.values(val).forEach(item => collectIds(item, ids));
+  }
+};
+
+/** Hands out 7-character hex ids not in `taken`, adding each one to it */
+const createIdAllocator = (taken: Set<string>) => (): string => {
+  let id = randomHexId();
+  while (taken.has(id)) id = randomHexId();
+  taken.add(id);
+  return id;
+};
+
+/**
+ * New ids for every old id, used by the element that has it first and by references to it.
+ */
+const buildIdMap = (oldIds: Set<string>, allocate: () => string): Map<string, string> =>
+  new Map([...oldIds].map(oldId => [oldId, allocate()]));
+
+interface IdRewrite {
+  idMap: Map<string, string>;
+  references: RegExp;
+  /** Old ids already given to an element; later elements sharing one get a fresh id */
+  assigned: Set<string>;
+  allocate: () => string;
+}
+
+const rewrite = (
+  val: JsonValue,
+  path: string,
+  key: string | undefined,
+  ids: IdRewrite,
+  ctx: RuleTransformContext,
+  element?: ElementInfo
+): JsonValue => {
+  if (typeof val === 'string') {
+    const rewritten = key && anchorKeys.includes(key) && ids.idMap.has(val)
+      ? ids.idMap.get(val)!
+      : val.replace(ids.references, (_match, prefix: string, id: string) => `${prefix}${ids.idMap.get(id)}`);
+    if (rewritten !== val) ctx.record(path, element, val, rewritten);
+    return rewritten;
+  }
+  if (Array.isArray(val)) return val.map((item, i) => rewrite(item, childPath(path, i), key, ids, ctx, element));
+  if (!isJsonObject(val)) return val;
+
+  const isElement = isElementorElement(val);
+  if (isElement) {
+    const title = isJsonObject(val.settings) ? val.settings['_title'] : undefined;
+    element = { id: val.id, title: typeof title === 'string' ? title : undefined, elType: val.elType, level: 0, path: '' };
+  }
+
+  const node: JsonObject = {};
+  for (const [childKey, value] of Object.entries(val)) {
+    if (isElement && childKey === 'id') {
+      const oldId = val.id as string;
+      node.id = ids.assigned.has(oldId) ? ids.allocate() : ids.idMap.get(oldId)!;
+      ids.assigned.add(oldId);
+      ctx.record(childPath(path, 'id'), element, val.id, node.id);
+    } else {
+      node[childKey] = rewrite(value, childPath(path, childKey), childKey, ids, ctx, element);
+    }
+  }
+  return node;
+};
+
+/**
+ * Gives every element a new id and rewrites references to the old ones:
+ * `#id` anchors, `.elementor-element-id` selectors, `data-id` attributes
+ * and anchor settings such as `_element_id` that hold an element id.
+ * Elements sharing an id each get their own; references go to the first of them.
+ */
+export const regenerateIds: CompressorRule = {
+  id: 'regenerate-ids',
+  label: 'Regenerate IDs',
+  description: 'New unique element ids, references updated',
+  category: 'output',
+  defaultEnabled: false,
+  transform: (root, ctx) => {
+    const oldIds = new Set<string>();
+    collectIds(root, oldIds);
+    if (oldIds.size === 0) return root;
+    const allocate = createIdAllocator(new Set(oldIds));
+    const idMap = buildIdMap(oldIds, allocate);
+    const pattern = [...oldIds].map(escapeRegExp).join('|');
+    const references = new RegExp(`(#|elementor-element-|data-id=["']?)(${pattern})(?![0-9a-zA-Z_-])`, 'g');
+    return rewrite(root, '$', undefined, { idMap, references, assigned: new Set(), allocate }, ctx);
+  }
+};
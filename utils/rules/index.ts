@@ -0,0 +1,86 @@
+import { CompressorOptions, CompressorRule, CompressorRuleId } from '../../types';
+import {
+  blankElementWidth,
+  customWidthFlexAlign,
+  dedupeResponsive,
+  minifyCustomCss,
+  removeDefaultValues,
+  removeEmptyValues,
+  removeMotionFx,
+  removeRedundantObjects
+} from './cleanup';
+import {
+  applyLevel2Padding,
+  applyLevel3Padding,
+  applyMotherPadding,
+  autoRename,
+  containerLayout,
+  isInner,
+  removeLevel2Padding,
+  removeLevel3Padding,
+  removeMargins
+} from './layout';
+import { regenerateIds } from './ids';
+import { convertLegacyLayout } from './legacy';
+import {
+  mirrorLayout,
+  rtlMirrorAlignment,
+  rtlMirrorCss,
+  rtlMirrorEffects,
+  rtlMirrorOffsets,
+  rtlMirrorSpacing
+} from './rtl';
+import { sanitize } from './security';
+import { cleanTextEditorHtml, normalizeText } from './text';
+
+/**
+ * All built-in rules. Hooks of the same kind run in this order, so settings
+ * written by a rule are visible to the rules after it.
+ */
+export const ruleRegistry: CompressorRule[] = [
+  regenerateIds,
+  convertLegacyLayout,
+  removeMotionFx,
+  blankElementWidth,
+  customWidthFlexAlign,
+  autoRename,
+  removeMargins,
+  containerLayout,
+  removeLevel2Padding,
+  removeLevel3Padding,
+  applyMotherPadding,
+  applyLevel2Padding,
+  applyLevel3Padding,
+  mirrorLayout,
+  rtlMirrorSpacing,
+  rtlMirrorOffsets,
+  rtlMirrorAlignment,
+  rtlMirrorEffects,
+  rtlMirrorCss,
+  sanitize,
+  cleanTextEditorHtml,
+  normalizeText,
+  minifyCustomCss,
+  removeRedundantObjects,
+  removeDefaultValues,
+  isInner,
+  removeEmptyValues,
+  dedupeResponsive
+];
+
+export const getRule = (id: CompressorRuleId): CompressorRule | undefined => ruleRegistry.find(r => r.id === id);
+
+/** Whether the rule's own toggle is on, ignoring the rule it requires. Strict mode implies the sanitizer. */
+export const isRuleToggled = (options: CompressorOptions, rule: CompressorRule): boolean =>
+  (rule.id === 'sanitize' && !!options.strictSanitize) || (options.rules?.[rule.id] ?? rule.defaultEnabled);
+
+/**
+ * A rule runs when it is toggled on and so is the rule it requires.
+ * Direction rules only run when a target direction is set.
+ */
+export const isRuleEnabled = (options: CompressorOptions, rule: CompressorRule): boolean => {
+  if (!isRuleToggled(options, rule)) return false;
+  if (rule.category === 'direction' && options.direction === 'keep') return false;
+  const required = rule.requires && getRule(rule.requires);
+  return !required || isRuleEnabled(options, required);
+};
@@ -0,0 +1,146 @@
+import { CompressorRule, PaddingValues } from '../../types';
+import { activeBreakpoints, breakpointSuffix, resolveDevicePadding, responsiveKeys } from '../responsive';
+
+const mapPaddingToElementor = (p: PaddingValues) => ({
+  unit: "px",
+  isLinked: false,
+  top: p.top || "0",
+  right: p.right || "0",
+  bottom: p.bottom || "0",
+  left: p.left || "0"
+});
+
+const fullWidth = () => ({ unit: "%", size: 100, sizes: [] });
+
+export const autoRename: CompressorRule = {
+  id: 'auto-rename',
+  label: 'Auto Rename',
+  description: 'Section / Container / Inner',
+  category: 'layout',
+  defaultEnabled: true,
+  appliesTo: { elType: ['container'] },
+  settings: ({ element, set }) => {
+    if (!element.path) return;
+    if (element.level === 1) {
+      set('_title', `Section ${element.path}`);
+      set('_element_id', `section_${element.path}`);
+    } else if (element.level === 2) {
+      set('_title', `Container ${element.path}`);
+    } else {
+      set('_title', `Inner ${element.path}`);
+    }
+  }
+};
+
+export const removeMargins: CompressorRule = {
+  id: 'remove-margins',
+  label: 'Remove Margins',
+  description: 'Strip all container margins',
+  category: 'layout',
+  defaultEnabled: true,
+  appliesTo: { elType: ['container'] },
+  settings: ({ remove, options }) => {
+    responsiveKeys('margin', options.breakpoints).forEach(remove);
+  }
+};
+
+export const containerLayout: CompressorRule = {
+  id: 'container-layout',
+  label: 'Normalize Widths',
+  description: 'Full-width sections, boxed containers, 100% inner',
+  category: 'layout',
+  defaultEnabled: true,
+  appliesTo: { elType: ['container'] },
+  settings: ({ element, set, remove, options }) => {
+    // Converted sections and columns keep the widths mapped from the legacy layout
+    if (element.legacyType) return;
+    if (element.level === 1) {
+      // Level 1: Section - Full Width
+      set('content_width', 'full');
+      set('width', fullWidth());
+    } else if (element.level === 2) {
+      // Level 2: Boxed, stripped widths
+      set('content_width', 'boxed');
+      responsiveKeys('width', options.breakpoints).forEach(remove);
+    } else {
+      // Level 3+: Inner
+      set('content_width', 'full');
+      responsiveKeys('width', options.breakpoints).forEach(key => set(key, fullWidth()));
+    }
+  }
+};
+
+const stripPadding: CompressorRule['settings'] = ({ remove, options }) => {
+  responsiveKeys('padding', options.breakpoints).forEach(remove);
+};
+
+export const removeLevel2Padding: CompressorRule = {
+  id: 'remove-level2-padding',
+  label: 'Strip Level 2 Paddings',
+  description: 'Remove all paddings from Level 2',
+  category: 'layout',
+  defaultEnabled: true,
+  appliesTo: { elType: ['container'], containerLevel: [2] },
+  settings: stripPadding
+};
+
+export const removeLevel3Padding: CompressorRule = {
+  id: 'remove-level3-padding',
+  label: 'Strip Level 3+ Paddings',
+  description: 'Remove all paddings from Inner',
+  category: 'layout',
+  defaultEnabled: true,
+  appliesTo: { elType: ['container'], containerLevel: [3] },
+  settings: stripPadding
+};
+
+const applyPadding: CompressorRule['settings'] = (ctx) => {
+  const key = ctx.element.level === 1 ? 'motherPadding' : ctx.element.level === 2 ? 'level2Padding' : 'level3Padding';
+  const padding = ctx.options[key];
+  for (const breakpoint of activeBreakpoints(ctx.options.breakpoints)) {
+    ctx.set(`padding${breakpointSuffix(breakpoint)}`, mapPaddingToElementor(resolveDevicePadding(padding, breakpoint)));
+  }
+};
+
+export const applyMotherPadding: CompressorRule = {
+  id: 'apply-mother-padding',
+  label: 'Level 1 (Sections)',
+  description: 'Apply padding to sections',
+  category: 'layout',
+  defaultEnabled: true,
+  appliesTo: { elType: ['container'], containerLevel: [1] },
+  paddingKey: 'motherPadding',
+  settings: applyPadding
+};
+
+export const applyLevel2Padding: CompressorRule = {
+  id: 'apply-level2-padding',
+  label: 'Level 2 (Containers)',
+  description: 'Apply padding to containers',
+  category: 'layout',
+  defaultEnabled: false,
+  appliesTo: { elType: ['container'], containerLevel: [2] },
+  paddingKey: 'level2Padding',
+  settings: applyPadding
+};
+
+export const applyLevel3Padding: CompressorRule = {
+  id: 'apply-level3-padding',
+  label: 'Level 3+ (Inner)',
+  description: 'Apply padding to inner containers',
+  category: 'layout',
+  defaultEnabled: false,
+  appliesTo: { elType: ['container'], containerLevel: [3] },
+  paddingKey: 'level3Padding',
+  settings: applyPadding
+};
+
+export const isInner: CompressorRule = {
+  id: 'is-inner',
+  label: 'Fix isInner',
+  description: 'Set isInner from the container depth',
+  category: 'layout',
+  defaultEnabled: true,
+  appliesTo: { elType: ['container'] },
+  finalize: ({ element, set }) => set('isInner', element.level !== 1)
+};
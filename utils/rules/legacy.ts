@@ -0,0 +1,201 @@
+import { CompressorRule, ElementInfo, JsonObject, JsonValue, RuleTransformContext } from '../../types';
+import { isElementorElement, isJsonObject } from '../elementor';
+import { childPath } from '../jsonPath';
+import { splitResponsiveKey } from '../responsive';
+
+/** Column gap presets of legacy sections, in px */
+const gapPresets: Record<string, number> = {
+  no: 0,
+  narrow: 5,
+  default: 10,
+  extended: 15,
+  wide: 20,
+  wider: 30
+};
+
+const verticalPositions: Record<string, string> = {
+  top: 'flex-start',
+  middle: 'center',
+  center: 'center',
+  bottom: 'flex-end',
+  stretch: 'stretch',
+  'space-between': 'space-between',
+  'space-around': 'space-around',
+  'space-evenly': 'space-evenly'
+};
+
+const horizontalAlignments = ['flex-start', 'center', 'flex-end'];
+
+const flexGap = (size: JsonValue): JsonObject => ({
+  unit: 'px',
+  size,
+  column: String(size),
+  row: String(size),
+  isLinked: true
+});
+
+const percentWidth = (size: JsonValue): JsonObject => ({ unit: '%', size, sizes: [] });
+
+const isSet = (value: JsonValue | undefined): boolean => value !== undefined && value !== null && value !== '';
+
+type SettingsMapper = (settings: JsonObject, inherited: JsonObject) => JsonObject;
+
+/**
+ * Section controls that become container controls. `height` / `custom_height` become `min_height`,
+ * `gap` becomes `flex_gap` and stacking on mobile becomes a column direction.
+ */
+const mapSectionSettings: SettingsMapper = (settings) => {
+  const mapped: JsonObject = {};
+  const heightKey = settings['height_inner'] !== undefined ? 'height_inner' : 'height';
+  const height = settings[heightKey];
+
+  for (const [key, value] of Object.entries(settings)) {
+    const { base, suffix } = splitResponsiveKey(key);
+    switch (base) {
+      case 'layout':
+        mapped['content_width'] = value === 'full_width' ? 'full' : 'boxed';
+        break;
+      case 'content_width':
+        mapped[`boxed_width${suffix}`] = value;
+        break;
+      case 'gap':
+        if (typeof value === 'string' && value in gapPresets) mapped['flex_gap'] = flexGap(gapPresets[value]);
+        break;
+      case 'gap_columns_custom':
+        if (settings['gap'] === 'custom' && isJsonObject(value) && isSet(value.size)) mapped[`flex_gap${suffix}`] = flexGap(value.size);
+        break;
+      case 'custom_height':
+      case 'custom_height_inner':
+        if (height === 'min-height' && base === `custom_${heightKey}`) mapped[`min_height${suffix}`] = value;
+        break;
+      case 'column_position':
+        // Columns stretch to the section height unless a height is set
+        if (height === 'full' || height === 'min-height') mapped['flex_align_items'] = verticalPositions[String(value)] ?? 'center';
+        break;
+      case 'stretch_section':
+        // Containers already span their parent; a stretched section fills it completely
+        if (value === 'section-stretched') mapped['width'] = percentWidth(100);
+        break;
+      case 'reverse_order':
+      case 'height':
+      case 'height_inner':
+      case 'structure':
+      case 'content_position':
+        break;
+      default:
+        mapped[key] = value;
+    }
+  }
+
+  if (height === 'full') mapped['min_height'] = { unit: 'vh', size: 100, sizes: [] };
+  mapped['flex_direction'] = 'row';
+  mapped['flex_direction_mobile'] = settings['reverse_order_mobile'] === 'reverse-mobile' ? 'column-reverse' : 'column';
+  return mapped;
+};
+
+/**
+ * Column controls that become container controls. The column size becomes a % width and
+ * the vertical position of its widgets a `flex_justify_content` of a column container.
+ */
+const mapColumnSettings: SettingsMapper = (settings, section) => {
+  const mapped: JsonObject = {};
+  const width = isSet(settings['_inline_size']) ? settings['_inline_size'] : settings['_column_size'];
+  if (isSet(width)) mapped['width'] = percentWidth(width);
+
+  for (const [key, value] of Object.entries(settings)) {
+    const { base, suffix } = splitResponsiveKey(key);
+    switch (base) {
+      case '_inline_size':
+        if (suffix && isSet(value)) mapped[`width${suffix}`] = percentWidth(value);
+        break;
+      case 'content_position':
+        if (typeof value === 'string' && verticalPositions[value]) mapped[`flex_justify_content${suffix}`] = verticalPositions[value];
+        break;
+      case 'align':
+        if (typeof value === 'string' && horizontalAlignments.includes(value)) mapped[`flex_align_items${suffix}`] = value;
+        break;
+      case 'space_between_widgets':
+        if (isJsonObject(value) && isSet(value.size)) mapped[`flex_gap${suffix}`] = flexGap(value.size);
+        break;
+      case '_column_size':
+        break;
+      default:
+        mapped[key] = value;
+    }
+  }
+
+  // The section's widget position is the default of its columns
+  const sectionPosition = section['content_position'];
+  if (!('flex_justify_content' in mapped) && typeof sectionPosition === 'string' && verticalPositions[sectionPosition]) {
+    mapped['flex_justify_content'] = verticalPositions[sectionPosition];
+  }
+  if (!('width_mobile' in mapped)) mapped['width_mobile'] = percentWidth(100);
+  mapped['flex_direction'] = 'column';
+  return mapped;
+};
+
+const describe = (node: JsonObject): ElementInfo => {
+  const title = isJsonObject(node.settings) ? node.settings['_title'] : undefined;
+  return {
+    id: typeof node.id === 'string' ? node.id : undefined,
+    title: typeof title === 'string' ? title : undefined,
+    elType: 'container',
+    level: 0,
+    path: ''
+  };
+};
+
+/**
+ * Logs every setting that was dropped, renamed or added by the mapping.
+ */
+const recordSettings = (ctx: RuleTransformContext, path: string, element: ElementInfo, before: JsonObject, after: JsonObject) => {
+  for (const key of Object.keys(before)) {
+    if (!(key in after)) ctx.record(childPath(path, key), element, before[key], undefined);
+  }
+  for (const key of Object.keys(after)) {
+    ctx.record(childPath(path, key), element, before[key], after[key]);
+  }
+};
+
+const convert = (val: JsonValue, path: string, ctx: RuleTransformContext, section: JsonObject): JsonValue => {
+  if (Array.isArray(val)) return val.map((item, i) => convert(item, childPath(path, i), ctx, section));
+  if (!isJsonObject(val)) return val;
+  if (!isElementorElement(val)) {
+    // Envelopes such as `{ type, elements }` or `{ content, page_settings }`
+    return Object.fromEntries(Object.entries(val).map(([key, value]) => [key, convert(value, childPath(path, key), ctx, section)]));
+  }
+
+  const legacyType = val.elType === 'section' || val.elType === 'column' ? val.elType : undefined;
+  const settings = isJsonObject(val.settings) ? val.settings : {};
+  const node: JsonObject = {};
+
+  for (const key of Object.keys(val)) {
+    if (key === 'elements') {
+      node.elements = convert(val.elements as unknown as JsonValue, childPath(path, 'elements'), ctx, val.elType === 'section' ? settings : section);
+    } else if (key === 'elType' && legacyType) {
+      node.elType = 'container';
+    } else if (key === 'settings' && legacyType) {
+      node.settings = legacyType === 'section' ? mapSectionSettings(settings, section) : mapColumnSettings(settings, section);
+    } else {
+      node[key] = val[key];
+    }
+  }
+  if (!legacyType) return node;
+
+  // Nested containers are what inner sections and columns used to be
+  node.isInner = legacyType === 'column' || val.isInner === true;
+  const element = describe(val);
+  ctx.record(childPath(path, 'elType'), element, legacyType, 'container');
+  recordSettings(ctx, childPath(path, 'settings'), element, settings, node.settings as JsonObject);
+  ctx.setLegacyType(node, legacyType);
+  return node;
+};
+
+export const convertLegacyLayout: CompressorRule = {
+  id: 'convert-legacy-layout',
+  label: 'Convert Sections',
+  description: 'Turn legacy sections & columns into containers',
+  category: 'layout',
+  defaultEnabled: false,
+  transform: (root, ctx) => convert(root, '$', ctx, {})
+};
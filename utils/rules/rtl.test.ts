@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { DirectionMode, ElementorElement, JsonObject } from '../../types';
+import { compressElementorJSON } from '../compressor';
+import { mergeOptions } from '../options';
+import { ruleRegistry } from '.';
+
+/** Only the direction rules, so nothing else rewrites the settings under test */
+const convert = (elements: ElementorElement[], direction: DirectionMode): ElementorElement[] =>
+  compressElementorJSON(
+    elements,
+    mergeOptions({
+      direction,
+      rules: Object.fromEntries(ruleRegistry.map(rule => [rule.id, rule.category === 'direction']))
+    })
+  ).cleaned;
+
+const container = (id: string, settings: JsonObject, elements: ElementorElement[] = []): ElementorElement =>
+  ({ id, elType: 'container', settings, elements }) as ElementorElement;
+
+const textEditor = (id: string, settings: JsonObject): ElementorElement =>
+  ({ id, elType: 'widget', widgetType: 'text-editor', settings, elements: [] }) as ElementorElement;
+
+const template = (): ElementorElement[] => [
+  container('top', { flex_direction: 'row', flex_direction_mobile: 'column' }, [
+    container('inner', { flex_direction: 'row-reverse', flex_direction_tablet: 'row', flex_size: 'grow' }, [
+      container('deep', { flex_direction: 'column', padding: { unit: 'px', top: '1', right: '2', bottom: '3', left: '4', isLinked: false } }),
+      textEditor('text', { editor: '<p>Hi</p>', align: 'left' })
+    ])
+  ]),
+  container('second', { flex_direction: 'row-reverse' }, [container('aside', {})])
+];
+
+const settingsOf = (elements: ElementorElement[], keys: RegExp): Record<string, Record<string, unknown>> =>
+  Object.fromEntries(
+    elements.flatMap(element => [
+      [element.id, Object.fromEntries(Object.entries(element.settings).filter(([key]) => keys.test(key)))],
+      ...Object.entries(settingsOf(element.elements ?? [], keys))
+    ])
+  );
+
+describe('mirrorLayout', () => {
+  it('swaps flex rows below the top level and reverses every top-level row in RTL', () => {
+    expect(settingsOf(convert(template(), 'rtl'), /^flex_direction/)).toEqual({
+      top: { flex_direction: 'row-reverse', flex_direction_mobile: 'column' },
+      inner: { flex_direction: 'row', flex_direction_tablet: 'row-reverse' },
+      deep: { flex_direction: 'column' },
+      text: {},
+      second: { flex_direction: 'row-reverse' },
+      aside: {}
+    });
+  });
+
+  it('keeps second-level containers from growing in RTL', () => {
+    expect(settingsOf(convert(template(), 'rtl'), /^flex_size$/)).toMatchObject({
+      inner: { flex_size: 'none' },
+      aside: { flex_size: 'none' }
+    });
+  });
+
+  it('restores the original template after RTL → LTR', () => {
+    expect(convert(convert(template(), 'rtl'), 'ltr')).toEqual(template());
+  });
+
+  it('restores rows and alignments after LTR → RTL', () => {
+    const layout = /^(flex_direction|align)/;
+    expect(settingsOf(convert(convert(template(), 'ltr'), 'rtl'), layout)).toEqual(settingsOf(template(), layout));
+  });
+});
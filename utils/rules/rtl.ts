@@ -0,0 +1,257 @@
+import { CompressorRule, DirectionMode, JsonObject, JsonValue } from '../../types';
+import { customCssKeys, mirrorCss } from '../css';
+import { isJsonObject } from '../elementor';
+import { activeSuffixes, splitResponsiveKey } from '../responsive';
+
+const keysToRemovePrefixes = [
+  "background_hover_video",
+  "background_motion_fx",
+  "background_overlay_video",
+  "background_overlay_hover",
+  "css_filters_hover",
+  "box_shadow_hover",
+  "shape_divider",
+  "sticky"
+];
+
+const isPositioned = (settings: JsonObject, suffix: string): boolean => {
+  const position = settings[`_position${suffix}`] || settings['_position'];
+  return position === 'absolute' || position === 'fixed';
+};
+
+const isDimensions = (value: JsonValue): value is JsonObject =>
+  isJsonObject(value) && 'left' in value && 'right' in value && 'top' in value && 'bottom' in value;
+
+/** Size-like values whose sign flips when mirrored horizontally */
+const mirroredTransformKeys = /^_transform_(translateX|rotateZ|skewX|skewY)_effect(_hover)?$/;
+
+/** Controls whose `left` / `right` values are physical directions */
+const alignmentKeys = /(align|alignment|position|float|placement)$/;
+
+const swapSides = (value: string): string =>
+  value.replace(/\b(left|right)\b/g, side => (side === 'left' ? 'right' : 'left'));
+
+/**
+ * Settings key holding what a conversion to `direction` overwrote, as mirrored by that
+ * conversion (e.g. `_rtl_original`). Empty strings stand for settings that were not set.
+ */
+const originalsKey = (direction: 'rtl' | 'ltr'): string => `_${direction}_original`;
+
+const reverseOf = (direction: DirectionMode): 'rtl' | 'ltr' => (direction === 'ltr' ? 'rtl' : 'ltr');
+
+/**
+ * Sanitizes a string to be used as a valid HTML ID attribute.
+ */
+const sanitizeToId = (str: string): string => {
+  return str
+    .toLowerCase()
+    .replace(/[\s\-\/]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+};
+
+/**
+ * Mirrors flex rows and absolute positions for the target direction and
+ * strips effects that do not survive mirroring. Settings it forces (the row of top-level
+ * containers, `flex_size` of their children, text alignment) are kept aside so that
+ * converting back restores them.
+ */
+export const mirrorLayout: CompressorRule = {
+  id: 'mirror-layout',
+  label: 'Mirror Layout',
+  description: 'Flip flex rows, positions & text alignment',
+  category: 'direction',
+  defaultEnabled: true,
+  beforeKey: ({ key, value, options }) => {
+    if (typeof key !== 'string') return;
+    if (keysToRemovePrefixes.some(p => key.startsWith(p))) {
+      return { remove: true };
+    }
+
+    // Put back what the other direction forced before mirroring, so the values flip back too
+    const saved = key === 'settings' && isJsonObject(value) ? value[originalsKey(reverseOf(options.direction))] : undefined;
+    if (isJsonObject(value) && isJsonObject(saved)) {
+      const restored: JsonObject = { ...value };
+      for (const [setting, original] of Object.entries(saved)) {
+        if (original === '') delete restored[setting];
+        else restored[setting] = original;
+      }
+      return { value: restored };
+    }
+  },
+  afterKey: ({ key, value, node, parentKey }) => {
+    if (typeof key !== 'string' || Array.isArray(node)) return;
+    const { base, suffix } = splitResponsiveKey(key);
+
+    // --- Absolute Position Flip ---
+    if (base === '_offset_orientation_h' && isPositioned(node, suffix)) {
+      if (value === 'start') return { value: 'end' };
+      if (value === 'end') return { value: 'start' };
+    }
+
+    // Swapping is its own inverse, so converting back restores the original rows
+    if (parentKey === 'settings' && base === 'flex_direction') {
+      if (value === 'row') return { value: 'row-reverse' };
+      if (value === 'row-reverse') return { value: 'row' };
+    }
+  },
+  settings: ({ element, target, set, remove, isEnabled, options }) => {
+    const toRtl = options.direction === 'rtl';
+
+    if (element.elType === 'container' && element.level === 1) {
+      const title = target['_title'];
+      if (!isEnabled('auto-rename') && typeof title === 'string' && title && !target['_element_id']) {
+        set('_element_id', sanitizeToId(title));
+      }
+    }
+
+    // Converting back: the forced settings were restored before mirroring
+    const reverseKey = originalsKey(reverseOf(options.direction));
+    if (reverseKey in target) {
+      remove(reverseKey);
+      return;
+    }
+
+    const forced: JsonObject = {};
+    const force = (key: string, value: string) => {
+      if (target[key] === value) return;
+      forced[key] = target[key] ?? '';
+      set(key, value);
+    };
+
+    if (element.elType === 'container') {
+      if (element.level === 1) force('flex_direction', toRtl ? 'row-reverse' : 'row');
+      else if (element.level === 2 && toRtl) force('flex_size', 'none');
+    }
+
+    // Text starts on the right in RTL and on the left in LTR, `start` follows the page direction
+    if (element.widgetType === 'text-editor') force('align', 'start');
+    if (element.widgetType === 'icon-box') force('text_align', 'start');
+
+    if (Object.keys(forced).length > 0) {
+      const key = originalsKey(toRtl ? 'rtl' : 'ltr');
+      const previous = target[key];
+      set(key, isJsonObject(previous) ? { ...forced, ...previous } : forced);
+    }
+  }
+};
+
+/**
+ * Swaps left and right of padding, margin and border widths.
+ * Border radius corners are mirrored: top-left ↔ top-right, bottom-left ↔ bottom-right.
+ */
+export const rtlMirrorSpacing: CompressorRule = {
+  id: 'rtl-mirror-spacing',
+  label: 'Mirror Spacing',
+  description: 'Swap left/right padding, margin & borders',
+  category: 'direction',
+  defaultEnabled: true,
+  requires: 'mirror-layout',
+  afterKey: ({ key, value, parentKey }) => {
+    if (parentKey !== 'settings' || typeof key !== 'string' || !isDimensions(value)) return;
+    if (splitResponsiveKey(key).base.includes('radius')) {
+      // Elementor stores corners clockwise from top-left in top/right/bottom/left
+      return { value: { ...value, top: value.right, right: value.top, bottom: value.left, left: value.bottom } };
+    }
+    return { value: { ...value, left: value.right, right: value.left } };
+  }
+};
+
+/**
+ * Moves horizontal offsets of absolute/fixed elements to the opposite edge,
+ * matching the orientation flip done by RTLize.
+ */
+export const rtlMirrorOffsets: CompressorRule = {
+  id: 'rtl-mirror-offsets',
+  label: 'Mirror Offsets',
+  description: 'Swap start/end offsets of positioned elements',
+  category: 'direction',
+  defaultEnabled: true,
+  requires: 'mirror-layout',
+  settings: ({ target, set, remove, options }) => {
+    for (const suffix of activeSuffixes(options.breakpoints)) {
+      if (!isPositioned(target, suffix)) continue;
+
+      // An unset orientation is inherited, RTLize only flipped the ones that were set
+      const orientationKey = `_offset_orientation_h${suffix}`;
+      if (!(orientationKey in target) && (suffix === '' || !isPositioned(target, ''))) {
+        set(orientationKey, target['_offset_orientation_h'] === 'end' && suffix !== '' ? 'start' : 'end');
+      }
+
+      const startKey = `_offset_x${suffix}`;
+      const endKey = `_offset_x_end${suffix}`;
+      const start = target[startKey];
+      const end = target[endKey];
+      if (end === undefined) remove(startKey);
+      else set(startKey, end);
+      if (start === undefined) remove(endKey);
+      else set(endKey, start);
+    }
+  }
+};
+
+/**
+ * Turns `left` into `right` (and back) in alignment and position controls of every element,
+ * including compound values such as `center left`.
+ */
+export const rtlMirrorAlignment: CompressorRule = {
+  id: 'rtl-mirror-alignment',
+  label: 'Mirror Alignments',
+  description: 'Swap left/right alignments & icon positions',
+  category: 'direction',
+  defaultEnabled: true,
+  requires: 'mirror-layout',
+  afterKey: ({ key, value, parentKey }) => {
+    if (parentKey !== 'settings' || typeof key !== 'string' || typeof value !== 'string') return;
+    if (!alignmentKeys.test(splitResponsiveKey(key).base)) return;
+    if (/\b(left|right)\b/.test(value)) return { value: swapSides(value) };
+  }
+};
+
+/**
+ * Negates horizontal shadow offsets and the X transforms (translate, rotate, skew).
+ */
+export const rtlMirrorEffects: CompressorRule = {
+  id: 'rtl-mirror-effects',
+  label: 'Mirror Effects',
+  description: 'Flip box/text shadows & X transforms',
+  category: 'direction',
+  defaultEnabled: true,
+  requires: 'mirror-layout',
+  afterKey: ({ key, value, parentKey }) => {
+    if (parentKey !== 'settings' || typeof key !== 'string' || !isJsonObject(value)) return;
+    const { base } = splitResponsiveKey(key);
+
+    if (base.includes('shadow') && typeof value.horizontal === 'number' && value.horizontal !== 0) {
+      return { value: { ...value, horizontal: -value.horizontal } };
+    }
+    if (mirroredTransformKeys.test(base)) {
+      const size = typeof value.size === 'string' && value.size !== '' ? Number(value.size) : value.size;
+      if (typeof size === 'number' && !Number.isNaN(size) && size !== 0) {
+        return { value: { ...value, size: typeof value.size === 'string' ? String(-size) : -size } };
+      }
+    }
+  }
+};
+
+/**
+ * Flips direction-dependent declarations in custom CSS (sides, box shorthands, `text-align`,
+ * `float`, positions and X transforms). Each rewritten declaration is listed in the change log.
+ */
+export const rtlMirrorCss: CompressorRule = {
+  id: 'rtl-mirror-css',
+  label: 'Mirror Custom CSS',
+  description: 'Flip left/right declarations in custom CSS',
+  category: 'direction',
+  defaultEnabled: true,
+  requires: 'mirror-layout',
+  appliesTo: { settingsKey: customCssKeys },
+  afterKey: ({ value, parentKey }) => {
+    if (parentKey !== 'settings' || typeof value !== 'string') return;
+    const { css, rewrites } = mirrorCss(value);
+    if (rewrites.length === 0) return;
+    return {
+      value: css,
+      details: rewrites.map(r => `${r.selectors.join(' › ') || '(top level)'}: ${r.before} → ${r.after}`)
+    };
+  }
+};
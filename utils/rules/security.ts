@@ -0,0 +1,21 @@
+import { CompressorRule } from '../../types';
+import { sanitizeSetting, securityFindingLabels } from '../sanitize';
+
+/**
+ * Neutralizes scripts, event handlers, `javascript:` links, tracking pixels and handler
+ * custom attributes in every string setting. With `options.strictSanitize` the conversion fails instead.
+ */
+export const sanitize: CompressorRule = {
+  id: 'sanitize',
+  label: 'Sanitize',
+  description: 'Strip scripts, on* handlers, javascript: links & pixels',
+  category: 'security',
+  defaultEnabled: false,
+  afterKey: ({ key, value, element, report }) => {
+    if (!element || typeof key !== 'string' || typeof value !== 'string') return;
+    const { value: safe, issues } = sanitizeSetting(key, value);
+    if (issues.length === 0) return;
+    issues.forEach(report);
+    return { value: safe, details: issues.map(issue => `${securityFindingLabels[issue.kind]}: ${issue.snippet}`) };
+  }
+};
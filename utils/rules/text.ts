@@ -0,0 +1,44 @@
+import { CompressorRule } from '../../types';
+import { cleanHtml } from '../html';
+import { normalizePersianText } from '../persianText';
+import { isTextSetting, textWidgetTypes } from '../translations';
+
+/**
+ * Cleans the HTML of text-editor widgets down to the tags and attributes in `options.htmlCleaning`.
+ * With a target direction, `dir` attributes and `text-align` styles are fixed to match it.
+ */
+export const cleanTextEditorHtml: CompressorRule = {
+  id: 'clean-html',
+  label: 'Clean Editor HTML',
+  description: 'Strip pasted styles, spans & empty paragraphs',
+  category: 'text',
+  defaultEnabled: false,
+  appliesTo: { elType: ['widget'], widgetType: ['text-editor'], settingsKey: ['editor'] },
+  afterKey: ({ value, parentKey, options, addSavings }) => {
+    if (parentKey !== 'settings' || typeof value !== 'string') return;
+    const html = cleanHtml(value, options.htmlCleaning, options.direction);
+    if (html === value) return;
+    addSavings(value, html);
+    return { value: html };
+  }
+};
+
+/**
+ * Fixes Arabic letters, digits and zero-width non-joiners in the text of text widgets,
+ * as configured in `options.textNormalization`. Markup inside the text is kept as-is.
+ */
+export const normalizeText: CompressorRule = {
+  id: 'normalize-text',
+  label: 'Normalize Persian Text',
+  description: 'Persian ی / ک, digits & ZWNJ in text widgets',
+  category: 'text',
+  defaultEnabled: false,
+  appliesTo: { elType: ['widget'], widgetType: textWidgetTypes },
+  afterKey: ({ key, value, parentKey, element, options, tally }) => {
+    if (typeof key !== 'string' || typeof value !== 'string' || !isTextSetting(element?.widgetType, parentKey, key)) return;
+    const { text, counts } = normalizePersianText(value, options.textNormalization);
+    if (text === value) return;
+    for (const [counter, amount] of Object.entries(counts)) tally(counter, amount);
+    return { value: text };
+  }
+};
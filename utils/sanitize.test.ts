@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { sanitizeAttributeList, sanitizeHtml, sanitizeSetting } from './sanitize';
+
+const kinds = (issues: { kind: string }[]) => issues.map(issue => issue.kind);
+
+describe('sanitizeHtml', () => {
+  it('removes scripts, event handlers and script URLs', () => {
+    const { html, issues } = sanitizeHtml('<p onclick="steal()">Hi<script>alert(1)</script> <a href="javascript:alert(1)">x</a></p>');
+    expect(html).toBe('<p>Hi <a>x</a></p>');
+    expect(kinds(issues)).toEqual(['script', 'event-handler', 'javascript-url']);
+  });
+
+  it('keeps untouched tags exactly as written', () => {
+    const input = "<p class='lead' data-x=1>Safe <a href=\"https://example.com\" target=_blank>link</a></p>";
+    expect(sanitizeHtml(input)).toEqual({ html: input, issues: [] });
+  });
+
+  it('does not end a tag at a > inside a quoted value', () => {
+    const { html, issues } = sanitizeHtml('<a title="x>y" onclick="alert(1)">hi</a>');
+    expect(html).toBe('<a title="x>y">hi</a>');
+    expect(kinds(issues)).toEqual(['event-handler']);
+  });
+
+  it('finds scripts whose start tag has a > in quotes', () => {
+    const { html, issues } = sanitizeHtml("<script data-x='a>b'>alert(1)</script><p>ok</p>");
+    expect(html).toBe('<p>ok</p>');
+    expect(kinds(issues)).toEqual(['script']);
+  });
+
+  it('drops srcdoc documents', () => {
+    const { html, issues } = sanitizeHtml('<iframe srcdoc="&lt;script&gt;alert(1)&lt;/script&gt;" title="a>b"></iframe>');
+    expect(html).toBe('<iframe title="a>b"></iframe>');
+    expect(kinds(issues)).toEqual(['script']);
+  });
+
+  it('catches entity-encoded script schemes', () => {
+    const { issues } = sanitizeHtml('<a href="jav&#x09;ascript&colon;alert(1)">x</a>');
+    expect(kinds(issues)).toEqual(['javascript-url']);
+  });
+
+  it('removes tracking pixels but keeps regular images', () => {
+    const { html, issues } = sanitizeHtml(
+      '<img src="https://www.facebook.com/tr?id=1"><img src="https://cdn.example.com/p.gif" width="1" height="1"><img src="/logo.png" width="1" height="1">'
+    );
+    expect(html).toBe('<img src="/logo.png" width="1" height="1">');
+    expect(kinds(issues)).toEqual(['tracking-pixel', 'tracking-pixel']);
+  });
+});
+
+describe('sanitizeAttributeList', () => {
+  it('drops handlers, srcdoc and script URLs from custom attributes', () => {
+    const { value, issues } = sanitizeAttributeList('data-id|5\nonclick|alert(1)\nsrcdoc|<b>x</b>\nhref|javascript:void(0)', '\n');
+    expect(value).toBe('data-id|5');
+    expect(kinds(issues)).toEqual(['custom-attribute', 'custom-attribute', 'javascript-url']);
+  });
+
+  it('returns the list unchanged when nothing is found', () => {
+    expect(sanitizeAttributeList('rel|nofollow, data-x|1', ',')).toEqual({ value: 'rel|nofollow, data-x|1', issues: [] });
+  });
+});
+
+describe('sanitizeSetting', () => {
+  it('blanks script URLs in url settings', () => {
+    expect(sanitizeSetting('url', ' javascript:alert(1)').value).toBe('');
+    expect(sanitizeSetting('external_url', 'https://example.com').value).toBe('https://example.com');
+  });
+
+  it('leaves plain text alone', () => {
+    expect(sanitizeSetting('title', 'onclick javascript: 1 > 0')).toEqual({ value: 'onclick javascript: 1 > 0', issues: [] });
+  });
+});
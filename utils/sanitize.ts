@@ -0,0 +1,146 @@
+import { SecurityFinding, SecurityFindingKind } from '../types';
+import { parseHtmlTag, serializeHtmlTag } from './html';
+
+export type SanitizerIssue = Pick<SecurityFinding, 'kind' | 'snippet'>;
+
+export const securityFindingLabels: Record<SecurityFindingKind, string> = {
+  script: 'Script',
+  'event-handler': 'Event handler',
+  'javascript-url': 'Script URL',
+  'tracking-pixel': 'Tracking pixel',
+  'custom-attribute': 'Custom attribute'
+};
+
+/** Attributes holding a URL that a browser loads or navigates to */
+const urlAttributes = ['href', 'src', 'action', 'formaction', 'xlink:href', 'data', 'poster', 'background'];
+
+/** Hosts of the usual analytics and ad pixels */
+const trackerPattern = /(facebook\.com\/tr|google-analytics\.com|googletagmanager\.com|doubleclick\.net|bat\.bing\.com|analytics\.twitter\.com|t\.co\/i\/adsct|px\.ads\.linkedin\.com|linkedin\.com\/px|ct\.pinterest\.com|analytics\.tiktok\.com)/i;
+
+/** `srcdoc` holds a whole HTML document, scripts and handlers included */
+const isEmbeddedDocument = (name: string): boolean => name === 'srcdoc';
+
+const shorten = (text: string): string => {
+  const collapsed = text.replace(/\s+/g, ' ').trim();
+  return collapsed.length > 80 ? `${collapsed.slice(0, 77)}...` : collapsed;
+};
+
+/** Undoes the entity and whitespace tricks used to hide a `javascript:` scheme */
+const isScriptUrl = (url: string): boolean => {
+  const decoded = url
+    .replace(/&#x([0-9a-f]+);?/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&#(\d+);?/g, (_, dec: string) => String.fromCharCode(Number(dec)))
+    .replace(/&colon;/gi, ':')
+    .replace(/&(tab|newline);/gi, '')
+    .replace(/[\u0000- \u007f]/g, '')
+    .toLowerCase();
+  return /^(javascript|vbscript):|^data:text\/html/.test(decoded);
+};
+
+const isSmall = (size: string | undefined): boolean => size !== undefined && /^\s*[01](px)?\s*$/i.test(size);
+
+const isTrackingPixel = (attributes: [string, string | undefined][]): boolean => {
+  const attribute = (name: string) => attributes.find(([key]) => key === name)?.[1];
+  const src = attribute('src') ?? '';
+  if (!/^(https?:)?\/\//i.test(src.trim())) return false;
+  if (trackerPattern.test(src)) return true;
+  const style = (attribute('style') ?? '').replace(/\s+/g, '').toLowerCase();
+  const hidden = /display:none|visibility:hidden/.test(style);
+  const tiny = (isSmall(attribute('width')) && isSmall(attribute('height'))) || (/width:[01]px/.test(style) && /height:[01]px/.test(style));
+  return hidden || tiny;
+};
+
+/**
+ * Removes scripts and tracking pixels from HTML, and event handler, `srcdoc` and `javascript:`
+ * URL attributes from every tag. Tags that aren't touched are kept exactly as written.
+ */
+export const sanitizeHtml = (html: string): { html: string; issues: SanitizerIssue[] } => {
+  const issues: SanitizerIssue[] = [];
+
+  // Scripts go first, their code may contain anything that looks like markup
+  const withoutScripts = html.replace(/<script\b(?:"[^"]*"|'[^']*'|[^'">])*>[\s\S]*?(<\/script\s*>|$)/gi, script => {
+    issues.push({ kind: 'script', snippet: shorten(script) });
+    return '';
+  });
+
+  const sanitized = withoutScripts
+    .split(/(<!--[\s\S]*?-->|<[a-zA-Z](?:"[^"]*"|'[^']*'|[^'">])*>)/)
+    .map((part, i) => {
+      // Odd parts are comments and start tags
+      if (i % 2 === 0 || part.startsWith('<!--')) return part;
+      const tag = parseHtmlTag(part);
+      if (!tag) return part;
+
+      if (tag.name === 'img' && isTrackingPixel(tag.attributes)) {
+        issues.push({ kind: 'tracking-pixel', snippet: shorten(part) });
+        return '';
+      }
+
+      const attributes = tag.attributes.filter(([name, value]) => {
+        if (/^on/.test(name)) {
+          issues.push({ kind: 'event-handler', snippet: shorten(`${name}="${value ?? ''}"`) });
+          return false;
+        }
+        if (isEmbeddedDocument(name)) {
+          issues.push({ kind: 'script', snippet: shorten(`${name}="${value ?? ''}"`) });
+          return false;
+        }
+        if (urlAttributes.includes(name) && value !== undefined && isScriptUrl(value)) {
+          issues.push({ kind: 'javascript-url', snippet: shorten(`${name}="${value}"`) });
+          return false;
+        }
+        return true;
+      });
+      if (attributes.length === tag.attributes.length) return part;
+      return serializeHtmlTag(tag.name, attributes);
+    })
+    .join('');
+
+  return { html: sanitized, issues };
+};
+
+/**
+ * Drops event handlers and script URLs from Elementor's `key|value` attribute lists:
+ * one per line in `_attributes`, comma-separated in the `custom_attributes` of links.
+ */
+export const sanitizeAttributeList = (list: string, separator: string): { value: string; issues: SanitizerIssue[] } => {
+  const issues: SanitizerIssue[] = [];
+  const kept = list.split(separator).filter(entry => {
+    const [name = '', ...rest] = entry.split('|');
+    const key = name.trim().toLowerCase();
+    if (/^on/.test(key) || isEmbeddedDocument(key)) {
+      issues.push({ kind: 'custom-attribute', snippet: shorten(entry) });
+      return false;
+    }
+    if (urlAttributes.includes(key) && isScriptUrl(rest.join('|').trim())) {
+      issues.push({ kind: 'javascript-url', snippet: shorten(entry) });
+      return false;
+    }
+    return true;
+  });
+  return { value: issues.length > 0 ? kept.join(separator) : list, issues };
+};
+
+/**
+ * Neutralizes one string setting: URLs with a script scheme are blanked, attribute lists and
+ * HTML are cleaned of handlers, scripts and pixels. Other text is left alone.
+ */
+export const sanitizeSetting = (key: string, value: string): { value: string; issues: SanitizerIssue[] } => {
+  if (/(^|_)url$/.test(key)) {
+    return isScriptUrl(value.trim()) ? { value: '', issues: [{ kind: 'javascript-url', snippet: shorten(value) }] } : { value, issues: [] };
+  }
+  if (key === '_attributes') return sanitizeAttributeList(value, '\n');
+  if (key === 'custom_attributes') return sanitizeAttributeList(value, ',');
+  if (!value.includes('<')) return { value, issues: [] };
+  const { html, issues } = sanitizeHtml(value);
+  return { value: html, issues };
+};
+
+/**
+ * One-line summary of the findings for the error a strict conversion fails with.
+ */
+export const describeFindings = (findings: SecurityFinding[]): string => {
+  const listed = findings.slice(0, 3).map(f => `${securityFindingLabels[f.kind]} at ${f.path}`);
+  if (findings.length > listed.length) listed.push(`${findings.length - listed.length} more`);
+  return `Found ${findings.length} dangerous ${findings.length === 1 ? 'item' : 'items'}: ${listed.join(', ')}`;
+};
@@ -0,0 +1,201 @@
+import { ElementorElement, JsonValue, SizeGroup, SizeMeasure, SizeReport, SizeReportRow } from '../types';
+import { isContainer, isJsonObject } from './elementor';
+import { hierarchyPath } from './outline';
+import { splitResponsiveKey } from './responsive';
+
+const encoder = new TextEncoder();
+
+/** DEFLATE window size */
+const WINDOW = 32768;
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+const HASH_BITS = 15;
+/** Candidates tried per position, and the match length that stops the search (as in `gzip -6`) */
+const MAX_CHAIN = 128;
+const NICE_MATCH = 128;
+/** gzip header and trailer */
+const GZIP_OVERHEAD = 18;
+/** Approximate cost of describing one Huffman code length in a block header */
+const CODE_LENGTH_BITS = 5;
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DISTANCE_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DISTANCE_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+
+/** Index of the DEFLATE code whose base range holds `value` */
+const codeIndex = (bases: number[], value: number): number => {
+  let index = 0;
+  while (index + 1 < bases.length && bases[index + 1] <= value) index++;
+  return index;
+};
+
+/** Bits needed to Huffman-code the symbols at their entropy, plus their code lengths */
+const entropyBits = (counts: Uint32Array): number => {
+  let total = 0;
+  let used = 0;
+  for (const count of counts) {
+    total += count;
+    if (count > 0) used++;
+  }
+  let bits = used * CODE_LENGTH_BITS;
+  for (const count of counts) {
+    if (count > 0) bits -= count * Math.log2(count / total);
+  }
+  return bits;
+};
+
+/**
+ * Estimated gzip size: LZ77 over a 32 KB window with hash chains as zlib does,
+ * with literals, lengths and distances priced at their entropy plus DEFLATE's extra bits.
+ * Lands within a few percent of `gzip -6` on Elementor JSON.
+ */
+export const estimateGzipSize = (text: string): number => {
+  const bytes = encoder.encode(text);
+  const n = bytes.length;
+  if (n === 0) return 0;
+
+  const head = new Int32Array(1 << HASH_BITS).fill(-1);
+  const prev = new Int32Array(n);
+  const hash = (i: number) => ((bytes[i] << 10) ^ (bytes[i + 1] << 5) ^ bytes[i + 2]) & ((1 << HASH_BITS) - 1);
+  const insert = (i: number) => {
+    const h = hash(i);
+    prev[i] = head[h];
+    head[h] = i;
+  };
+
+  // Literal/length symbols 0-285 and distance symbols 0-29, as in DEFLATE
+  const literalLengths = new Uint32Array(286);
+  const distances = new Uint32Array(30);
+  let extraBits = 0;
+
+  let i = 0;
+  while (i < n) {
+    let bestLength = 0;
+    let bestDistance = 0;
+    if (i + MIN_MATCH <= n) {
+      let candidate = head[hash(i)];
+      for (let chain = 0; candidate >= 0 && i - candidate <= WINDOW && chain < MAX_CHAIN; chain++) {
+        let length = 0;
+        while (length < MAX_MATCH && i + length < n && bytes[candidate + length] === bytes[i + length]) length++;
+        if (length > bestLength) {
+          bestLength = length;
+          bestDistance = i - candidate;
+          if (length >= NICE_MATCH) break;
+        }
+        candidate = prev[candidate];
+      }
+      insert(i);
+    }
+
+    if (bestLength >= MIN_MATCH) {
+      const lengthCode = codeIndex(LENGTH_BASE, bestLength);
+      const distanceCode = codeIndex(DISTANCE_BASE, bestDistance);
+      literalLengths[257 + lengthCode]++;
+      distances[distanceCode]++;
+      extraBits += LENGTH_EXTRA[lengthCode] + DISTANCE_EXTRA[distanceCode];
+      for (let j = i + 1; j < i + bestLength && j + MIN_MATCH <= n; j++) insert(j);
+      i += bestLength;
+    } else {
+      literalLengths[bytes[i]]++;
+      i++;
+    }
+  }
+  literalLengths[256]++; // end of block
+
+  return Math.ceil((entropyBits(literalLengths) + entropyBits(distances) + extraBits) / 8) + GZIP_OVERHEAD;
+};
+
+/** Settings key families, matched in order against the key without its breakpoint suffix */
+const keyFamilies: { key: string; label: string; pattern: RegExp }[] = [
+  { key: 'globals', label: 'Globals & dynamic tags', pattern: /^__(globals|dynamic)__$/ },
+  { key: 'motion_fx', label: 'Motion effects & animations', pattern: /^_?motion_fx_|^_?(animation|hover_animation)/ },
+  { key: 'custom_css', label: 'Custom CSS', pattern: /custom_css/ },
+  { key: 'typography', label: 'Typography', pattern: /typography|^_?font_|text_shadow/ },
+  { key: 'background', label: 'Background', pattern: /background/ },
+  { key: 'border', label: 'Border & shadow', pattern: /border|box_shadow/ },
+  { key: 'spacing', label: 'Padding & margin', pattern: /^_?(padding|margin)$/ },
+  { key: 'transform', label: 'Transform & position', pattern: /^_?(transform|offset|position|z_index)|_offset_/ },
+  { key: 'layout', label: 'Layout & size', pattern: /width|height|flex|gap|align|justify|direction|content_/ },
+  { key: 'visibility', label: 'Responsive visibility', pattern: /^hide_/ },
+  { key: 'identity', label: 'Titles, ids & classes', pattern: /^_(title|element_id|css_classes)$|^css_classes$/ }
+];
+
+const keyFamily = (key: string): { key: string; label: string } => {
+  const { base } = splitResponsiveKey(key);
+  return keyFamilies.find(family => family.pattern.test(base)) ?? { key: 'content', label: 'Content & other' };
+};
+
+type Collected = Map<string, { group: SizeGroup; label: string; parts: string[] }>;
+
+const collect = (elements: ElementorElement[]): Collected => {
+  const collected: Collected = new Map();
+  const add = (group: SizeGroup, key: string, label: string, part: string) => {
+    const id = `${group}:${key}`;
+    const entry = collected.get(id) ?? { group, label, parts: [] };
+    entry.parts.push(part);
+    collected.set(id, entry);
+  };
+
+  const visit = (element: ElementorElement) => {
+    if (element.elType === 'widget') {
+      const { elements, ...widget } = element;
+      add('widgetType', element.widgetType, element.widgetType, JSON.stringify(widget));
+    }
+    if (isJsonObject(element.settings)) {
+      for (const [key, value] of Object.entries(element.settings)) {
+        const family = keyFamily(key);
+        add('keyFamily', family.key, family.label, `${JSON.stringify(key)}:${JSON.stringify(value)}`);
+      }
+    }
+    (element.elements ?? []).forEach(visit);
+  };
+
+  let containerCounter = 0;
+  elements.forEach((element, index) => {
+    const title = isJsonObject(element.settings) ? element.settings['_title'] : undefined;
+    const position = isContainer(element) ? hierarchyPath('', ++containerCounter) : `${index + 1}`;
+    const label = typeof title === 'string' && title ? title : `${element.elType} ${position}`;
+    add('section', `${index}`, label, JSON.stringify(element));
+    visit(element);
+  });
+  return collected;
+};
+
+const measure = (parts: string[]): SizeMeasure => {
+  const text = parts.join(',');
+  return { bytes: encoder.encode(text).length, gzipBytes: estimateGzipSize(text) };
+};
+
+const EMPTY: SizeMeasure = { bytes: 0, gzipBytes: 0 };
+
+/**
+ * Serialized and gzip-estimated size per top-level element, widget type and settings key family,
+ * before and after compression. Top-level elements are matched by position.
+ */
+export const buildSizeReport = (before: ElementorElement[], after: ElementorElement[]): SizeReport => {
+  const collectedBefore = collect(before);
+  const collectedAfter = collect(after);
+  const rows: SizeReportRow[] = [];
+
+  for (const id of new Set([...collectedBefore.keys(), ...collectedAfter.keys()])) {
+    const entryBefore = collectedBefore.get(id);
+    const entryAfter = collectedAfter.get(id);
+    const { group, label } = (entryAfter ?? entryBefore)!;
+    rows.push({
+      group,
+      key: id.slice(group.length + 1),
+      label,
+      before: entryBefore ? measure(entryBefore.parts) : EMPTY,
+      after: entryAfter ? measure(entryAfter.parts) : EMPTY
+    });
+  }
+
+  return {
+    total: {
+      before: measure([JSON.stringify(before as unknown as JsonValue)]),
+      after: measure([JSON.stringify(after as unknown as JsonValue)])
+    },
+    rows
+  };
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { ElementorElement, JsonValue, TranslationFormat } from '../types';
+import {
+  applyTranslations,
+  detectTranslationFormat,
+  extractTranslations,
+  parseTranslations,
+  serializeTranslations,
+  translationKey
+} from './translations';
+
+const tree = (): ElementorElement[] =>
+  [
+    {
+      id: 'c1',
+      elType: 'container',
+      settings: { _title: 'Hero' },
+      elements: [
+        { id: 'h1', elType: 'widget', widgetType: 'heading', settings: { title: 'Say "hi",\nthen <b>go</b> & wave' }, elements: [] },
+        {
+          id: 'l1',
+          elType: 'widget',
+          widgetType: 'icon-list',
+          settings: { icon_list: [{ text: 'One', _id: 'a' }, { text: 'Two', _id: 'b' }] },
+          elements: []
+        }
+      ]
+    }
+  ] as ElementorElement[];
+
+const targets: Record<string, string> = {
+  'c1:_title': 'قهرمان',
+  'h1:title': 'بگو «سلام»،\nبعد <b>برو</b> & دست تکان بده',
+  'l1:icon_list[0].text': 'یک',
+  'l1:icon_list[1].text': 'دو'
+};
+
+describe('extractTranslations', () => {
+  it('lists translatable strings in document order', () => {
+    expect(extractTranslations(tree()).map(unit => translationKey(unit.elementId, unit.path))).toEqual(Object.keys(targets));
+  });
+
+  it('reads the element tree of clipboard payloads', () => {
+    expect(extractTranslations({ type: 'elementor', siteurl: '', elements: tree() })).toHaveLength(4);
+  });
+});
+
+describe.each<TranslationFormat>(['po', 'xliff', 'csv'])('%s round-trip', format => {
+  const units = extractTranslations(tree()).map(unit => ({ ...unit, target: targets[translationKey(unit.elementId, unit.path)] }));
+  const file = serializeTranslations(units, format);
+
+  it('reads back every translated string', () => {
+    expect(detectTranslationFormat(file)).toBe(format);
+    expect(parseTranslations(file, format)).toEqual(targets);
+  });
+
+  it('writes the translations into the tree', () => {
+    const translated = applyTranslations(tree() as unknown as JsonValue, parseTranslations(file, format));
+    expect(extractTranslations(translated as unknown as ElementorElement[]).map(unit => unit.source)).toEqual(Object.values(targets));
+  });
+
+  it('rejects a file without translations', () => {
+    const empty = serializeTranslations(extractTranslations(tree()), format);
+    expect(() => parseTranslations(empty, format)).toThrow(/No translated strings/);
+  });
+});
@@ -0,0 +1,373 @@
+import { ElementInfo, ElementorDocument, JsonObject, JsonValue, TranslationFormat, TranslationMap, TranslationUnit } from '../types';
+import { getDocumentElements, isElementorElement, isJsonObject } from './elementor';
+import { childPath } from './jsonPath';
+
+/**
+ * Translatable settings per widget type. `list[].key` reads `key` from every item of a repeater.
+ * `_title` (the navigator label) is translatable on every element.
+ */
+const translatableSettings: Record<string, string[]> = {
+  heading: ['title'],
+  'text-editor': ['editor'],
+  button: ['text'],
+  'icon-box': ['title_text', 'description_text'],
+  'image-box': ['title_text', 'description_text'],
+  'icon-list': ['icon_list[].text'],
+  image: ['caption'],
+  divider: ['text'],
+  alert: ['alert_title', 'alert_description'],
+  counter: ['title', 'prefix', 'suffix'],
+  progress: ['title', 'inner_text'],
+  testimonial: ['testimonial_content', 'testimonial_name', 'testimonial_job'],
+  'star-rating': ['title'],
+  tabs: ['tabs[].tab_title', 'tabs[].tab_content'],
+  accordion: ['tabs[].tab_title', 'tabs[].tab_content'],
+  toggle: ['tabs[].tab_title', 'tabs[].tab_content'],
+  'nested-tabs': ['tabs[].tab_title'],
+  'nested-accordion': ['items[].item_title'],
+  'animated-headline': ['before_text', 'highlighted_text', 'rotating_text', 'after_text'],
+  'call-to-action': ['title', 'description', 'button', 'ribbon_title'],
+  'flip-box': ['title_text_a', 'description_text_a', 'title_text_b', 'description_text_b', 'button_text'],
+  'price-table': ['heading', 'sub_heading', 'period', 'features_list[].item_text', 'button_text', 'footer_additional_info', 'ribbon_title'],
+  'price-list': ['price_list[].title', 'price_list[].item_description'],
+  blockquote: ['blockquote_content', 'author_name', 'tweet_button_label'],
+  slides: ['slides[].heading', 'slides[].description', 'slides[].button_text'],
+  'testimonial-carousel': ['slides[].content', 'slides[].name', 'slides[].title'],
+  form: ['form_fields[].field_label', 'form_fields[].placeholder', 'button_text', 'success_message', 'error_message', 'required_field_message', 'invalid_message'],
+  countdown: ['label_days', 'label_hours', 'label_minutes', 'label_seconds', 'message_after_expire'],
+  'search-form': ['placeholder', 'button_text'],
+  'read-more': ['link_text'],
+  'table-of-contents': ['title'],
+  'author-box': ['author_name', 'author_bio', 'link_text']
+};
+
+/** `parentKey/key` of the user-facing text settings per widget type, as seen by rule key hooks */
+const textSettingKeys = new Map(
+  Object.entries(translatableSettings).map(([widgetType, specs]) => [
+    widgetType,
+    new Set(specs.map(spec => {
+      const segments = spec.split('.');
+      const key = segments[segments.length - 1];
+      return `${segments.length > 1 ? segments[segments.length - 2].replace(/\[\]$/, '') : 'settings'}/${key}`;
+    }))
+  ])
+);
+
+/**
+ * Whether a setting key holds user-facing text of the widget, e.g. `title` of a heading
+ * (parent `settings`) or `text` of an icon list item (parent `icon_list`).
+ */
+export const isTextSetting = (widgetType: string | undefined, parentKey: string | undefined, key: string): boolean =>
+  !!widgetType && !!textSettingKeys.get(widgetType)?.has(`${parentKey}/${key}`);
+
+/** Widget types with user-facing text settings */
+export const textWidgetTypes = Object.keys(translatableSettings);
+
+/** Key of a string in a `TranslationMap` and the id written to PO, XLIFF and CSV files */
+export const translationKey = (elementId: string, path: string): string => `${elementId}:${path}`;
+
+export const translationFormatLabels: Record<TranslationFormat, string> = {
+  po: 'PO',
+  xliff: 'XLIFF',
+  csv: 'CSV'
+};
+
+export const translationFileExtensions: Record<TranslationFormat, string> = {
+  po: 'po',
+  xliff: 'xlf',
+  csv: 'csv'
+};
+
+interface TranslatableField {
+  /** Path inside the element's settings */
+  path: string;
+  /** JSONPath with `$` standing for the settings object */
+  jsonPath: string;
+  holder: JsonObject;
+  key: string;
+  value: string;
+}
+
+/** Path inside settings, e.g. `icon_list[2].text`, from a `childPath` built on `$` */
+const settingPath = (path: string): string => path.replace(/^\$\.?/, '');
+
+const collectFields = (node: JsonValue, segments: string[], path: string, fields: TranslatableField[]) => {
+  if (!isJsonObject(node)) return;
+  const [segment, ...rest] = segments;
+  const isList = segment.endsWith('[]');
+  const key = isList ? segment.slice(0, -2) : segment;
+  const value = node[key];
+  const keyPath = childPath(path, key);
+
+  if (isList) {
+    if (Array.isArray(value)) value.forEach((item, i) => collectFields(item, rest, childPath(keyPath, i), fields));
+  } else if (rest.length > 0) {
+    collectFields(value, rest, keyPath, fields);
+  } else if (typeof value === 'string' && value.trim()) {
+    fields.push({ path: settingPath(keyPath), jsonPath: keyPath, holder: node, key, value });
+  }
+};
+
+/**
+ * Translatable strings in an element's settings, in the order of the catalog.
+ */
+const translatableFields = (settings: JsonObject, widgetType: string | undefined): TranslatableField[] => {
+  const fields: TranslatableField[] = [];
+  for (const spec of ['_title', ...(widgetType ? translatableSettings[widgetType] ?? [] : [])]) {
+    collectFields(settings, spec.split('.'), '$', fields);
+  }
+  return fields;
+};
+
+/**
+ * Pulls every translatable string out of the element tree of a document, in document order.
+ */
+export const extractTranslations = (doc: ElementorDocument): TranslationUnit[] => {
+  const units: TranslationUnit[] = [];
+  const visit = (val: unknown) => {
+    if (Array.isArray(val)) {
+      val.forEach(visit);
+      return;
+    }
+    if (!isElementorElement(val)) return;
+    const element = val as unknown as JsonObject;
+    const widgetType = val.elType === 'widget' ? val.widgetType : undefined;
+    if (typeof val.id === 'string' && isJsonObject(element.settings)) {
+      for (const field of translatableFields(element.settings, widgetType)) {
+        units.push({ elementId: val.id, path: field.path, source: field.value, note: widgetType ?? val.elType });
+      }
+    }
+    if (element.elements !== undefined) visit(element.elements);
+  };
+  visit(getDocumentElements(doc));
+  return units;
+};
+
+/**
+ * Writes translated strings into an element tree, returning a copy; the input is not mutated.
+ * Each replaced string is reported with its JSONPath relative to the tree.
+ */
+export const applyTranslations = (
+  root: JsonValue,
+  translations: TranslationMap,
+  onTranslate?: (path: string, element: ElementInfo, oldValue: string, newValue: string) => void
+): JsonValue => {
+  const elementIds = new Set(Object.keys(translations).map(key => key.slice(0, key.indexOf(':'))));
+
+  const visit = (val: JsonValue, path: string): JsonValue => {
+    if (Array.isArray(val)) return val.map((item, i) => visit(item, childPath(path, i)));
+    if (!isElementorElement(val)) return val;
+
+    const node: JsonObject = { ...(val as unknown as JsonObject) };
+    if (typeof val.id === 'string' && elementIds.has(val.id) && isJsonObject(node.settings)) {
+      const settings = JSON.parse(JSON.stringify(node.settings)) as JsonObject;
+      const title = settings['_title'];
+      const element: ElementInfo = {
+        id: val.id,
+        title: typeof title === 'string' ? title : undefined,
+        elType: val.elType,
+        widgetType: val.elType === 'widget' ? val.widgetType : undefined,
+        level: 0,
+        path: ''
+      };
+      for (const field of translatableFields(settings, element.widgetType)) {
+        const translated = translations[translationKey(val.id, field.path)];
+        if (translated === undefined || translated === field.value) continue;
+        field.holder[field.key] = translated;
+        onTranslate?.(`${childPath(path, 'settings')}${field.jsonPath.slice(1)}`, element, field.value, translated);
+      }
+      node.settings = settings;
+    }
+    if (node.elements !== undefined) node.elements = visit(node.elements, childPath(path, 'elements'));
+    return node;
+  };
+
+  return visit(root, '$');
+};
+
+const escapePo = (str: string): string =>
+  str.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\t/g, '\\t').replace(/\r/g, '\\r').replace(/\n/g, '\\n');
+
+const unescapePo = (str: string): string =>
+  str.replace(/\\(.)/g, (_match, ch: string) => ({ n: '\n', t: '\t', r: '\r' } as Record<string, string>)[ch] ?? ch);
+
+/** A PO keyword and its string, split after line breaks the way gettext tools do */
+const poString = (keyword: string, str: string): string => {
+  const lines = str.split(/(?<=\n)/);
+  if (lines.length < 2) return `${keyword} "${escapePo(str)}"`;
+  return [`${keyword} ""`, ...lines.map(line => `"${escapePo(line)}"`)].join('\n');
+};
+
+const escapeXml = (str: string): string =>
+  str.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const unescapeXml = (str: string): string =>
+  str.replace(/<!\[CDATA\[([\s\S]*?)\]\]>|&(#x[\da-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_match, cdata: string | undefined, entity: string) => {
+    if (cdata !== undefined) return cdata;
+    if (entity[0] === '#') return String.fromCodePoint(entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : Number(entity.slice(1)));
+    return ({ lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" } as Record<string, string>)[entity.toLowerCase()];
+  });
+
+const csvField = (str: string): string => (/[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str);
+
+const CSV_HEADER = ['id', 'path', 'type', 'source', 'target'];
+
+/**
+ * Serializes strings for translators. Every entry is keyed by `elementId:path`;
+ * untranslated entries have an empty target.
+ */
+export const serializeTranslations = (
+  units: TranslationUnit[],
+  format: TranslationFormat,
+  { sourceLanguage = 'en', targetLanguage = '' }: { sourceLanguage?: string; targetLanguage?: string } = {}
+): string => {
+  switch (format) {
+    case 'po': {
+      const header = [
+        'msgid ""',
+        'msgstr ""',
+        '"Content-Type: text/plain; charset=UTF-8\\n"',
+        ...(targetLanguage ? [`"Language: ${escapePo(targetLanguage)}\\n"`] : []),
+        '"X-Generator: Elementor Compressor\\n"'
+      ].join('\n');
+      const entries = units.map(unit => [
+        ...(unit.note ? [`#. ${unit.note}`] : []),
+        poString('msgctxt', translationKey(unit.elementId, unit.path)),
+        poString('msgid', unit.source),
+        poString('msgstr', unit.target ?? '')
+      ].join('\n'));
+      return [header, ...entries].join('\n\n') + '\n';
+    }
+    case 'xliff': {
+      const target = targetLanguage ? ` target-language="${escapeXml(targetLanguage)}"` : '';
+      const body = units.map(unit => [
+        `      <trans-unit id="${escapeXml(translationKey(unit.elementId, unit.path))}">`,
+        `        <source>${escapeXml(unit.source)}</source>`,
+        `        <target>${escapeXml(unit.target ?? '')}</target>`,
+        ...(unit.note ? [`        <note>${escapeXml(unit.note)}</note>`] : []),
+        '      </trans-unit>'
+      ].join('\n'));
+      return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">',
+        `  <file original="elementor" datatype="html" source-language="${escapeXml(sourceLanguage)}"${target}>`,
+        '    <body>',
+        ...body,
+        '    </body>',
+        '  </file>',
+        '</xliff>'
+      ].join('\n') + '\n';
+    }
+    case 'csv': {
+      const rows = units.map(unit => [unit.elementId, unit.path, unit.note ?? '', unit.source, unit.target ?? '']);
+      return [CSV_HEADER, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+    }
+  }
+};
+
+const parsePo = (text: string): TranslationMap => {
+  const map: TranslationMap = {};
+  let entry: Record<string, string> = {};
+  let current: string | undefined;
+
+  const flush = () => {
+    if (entry.msgctxt && entry.msgstr) map[entry.msgctxt] = entry.msgstr;
+    entry = {};
+    current = undefined;
+  };
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const keyword = /^(msgctxt|msgid|msgstr)\s+"(.*)"$/.exec(line);
+    if (keyword) {
+      // A new msgctxt, or a msgid without one, starts the next entry
+      if (keyword[1] === 'msgctxt' || (keyword[1] === 'msgid' && 'msgstr' in entry)) flush();
+      current = keyword[1];
+      entry[current] = unescapePo(keyword[2]);
+    } else if (current && /^".*"$/.test(line)) {
+      entry[current] += unescapePo(line.slice(1, -1));
+    } else if (!line) {
+      flush();
+    }
+  }
+  flush();
+  return map;
+};
+
+const parseXliff = (text: string): TranslationMap => {
+  const map: TranslationMap = {};
+  for (const unit of text.matchAll(/<trans-unit\b([^>]*)>([\s\S]*?)<\/trans-unit>/g)) {
+    const id = /\bid\s*=\s*"([^"]*)"/.exec(unit[1])?.[1];
+    const target = /<target\b[^>]*>([\s\S]*?)<\/target>/.exec(unit[2])?.[1];
+    if (id && target) map[unescapeXml(id)] = unescapeXml(target);
+  }
+  return map;
+};
+
+/** RFC 4180 rows; quoted fields may contain commas, quotes and line breaks */
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length > 0) rows.push([...row, field]);
+  return rows;
+};
+
+const parseCsv = (text: string): TranslationMap => {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  const column = (name: string) => header?.findIndex(cell => cell.trim().toLowerCase() === name) ?? -1;
+  const [id, path, target] = [column('id'), column('path'), column('target')];
+  if (id < 0 || path < 0 || target < 0) throw new Error('CSV needs "id", "path" and "target" columns');
+
+  const map: TranslationMap = {};
+  for (const row of rows) {
+    if (row[id] && row[path] && row[target]) map[translationKey(row[id], row[path])] = row[target];
+  }
+  return map;
+};
+
+/**
+ * Detects the format of a translation file from its name, falling back to its content.
+ */
+export const detectTranslationFormat = (text: string, fileName = ''): TranslationFormat => {
+  const ext = fileName.split('.').pop()?.toLowerCase();
+  if (ext === 'po' || ext === 'pot') return 'po';
+  if (ext === 'xlf' || ext === 'xliff') return 'xliff';
+  if (ext === 'csv') return 'csv';
+  const start = text.trimStart();
+  if (start.startsWith('<')) return 'xliff';
+  return /^(#|msg)/m.test(start) && /^msgid\s/m.test(start) ? 'po' : 'csv';
+};
+
+/**
+ * Reads translated strings from a PO, XLIFF or CSV file written by `serializeTranslations`.
+ * Entries without a translation are left out. Throws when the file has none.
+ */
+export const parseTranslations = (text: string, format: TranslationFormat): TranslationMap => {
+  const map = format === 'po' ? parsePo(text) : format === 'xliff' ? parseXliff(text) : parseCsv(text);
+  if (Object.keys(map).length === 0) throw new Error(`No translated strings found in ${translationFormatLabels[format]} file`);
+  return map;
+};